@@ -1,45 +1,68 @@
 // ASL Finger configurations
-// 0.0 = Open/Extended, 1.5 = Curled/Closed
-// Thumb rotation is handled specifically if needed, but simplified here to curls.
-// Some letters need extra logic (like Z drawing in air, or J), but we'll approximate with static poses for this MVP.
+// Each letter and digit is a handshape from the shared inventory (see Handshapes.ts).
+// J and Z are drawn in the air: their motion is a list of wrist rotation waypoints [x, y, z],
+// traced evenly over the letter's duration.
 
-export const ASL_ALPHABET: { [key: string]: { thumb: number, index: number, middle: number, ring: number, pinky: number } } = {
-    'a': { thumb: 0.1, index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Thumb out, fingers curled
-    'b': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0 }, // Palm open, thumb tucked
-    'c': { thumb: 0.5, index: 0.5, middle: 0.5, ring: 0.5, pinky: 0.5 }, // C-shape (partial curl)
-    'd': { thumb: 1.5, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Index up
-    'e': { thumb: 1.5, index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Claw/Fist
-    'f': { thumb: 1.5, index: 1.2, middle: 0.0, ring: 0.0, pinky: 0.0 }, // OK sign (Index+Thumb touch, rest open)
-    'g': { thumb: 0.5, index: 0.2, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Pointing sideways
-    'h': { thumb: 1.5, index: 0.2, middle: 0.2, ring: 1.5, pinky: 1.5 }, // Index+Middle sideways
-    'i': { thumb: 1.4, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0 }, // Pinky up
-    'j': { thumb: 1.4, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0 }, // Same as I but animated (static for now)
-    'k': { thumb: 0.5, index: 0.0, middle: 0.5, ring: 1.5, pinky: 1.5 }, // V shape with thumb
-    'l': { thumb: 0.0, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5 }, // L shape
-    'm': { thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.2, pinky: 1.5 }, // Thumb under fingers
-    'n': { thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.5, pinky: 1.5 }, // Thumb under 2 fingers
-    'o': { thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.2, pinky: 1.2 }, // O shape
-    'p': { thumb: 0.5, index: 0.5, middle: 0.0, ring: 1.5, pinky: 1.5 }, // Downward K
-    'q': { thumb: 0.5, index: 0.5, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Downward G
-    'r': { thumb: 1.5, index: 0.1, middle: 0.1, ring: 1.5, pinky: 1.5 }, // Crossed fingers (simulated)
-    's': { thumb: 1.2, index: 1.4, middle: 1.4, ring: 1.4, pinky: 1.4 }, // Fist
-    't': { thumb: 0.5, index: 1.2, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Thumb between index/middle
-    'u': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5 }, // U shape
-    'v': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5 }, // V shape (splayed) -- approximation
-    'w': { thumb: 1.2, index: 0.0, middle: 0.0, ring: 0.0, pinky: 1.5 }, // W shape
-    'x': { thumb: 1.2, index: 0.8, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Hooked index
-    'y': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0 }, // Hang loose
-    'z': { thumb: 1.2, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Pointing (Z trace)
+import { HANDSHAPES } from './Handshapes';
+import type { Handshape } from './Handshapes';
+import type { Position } from './SigningSpace';
+
+// Two-handed alphabets (BSL) also place the hands: `at` is the wrist position and `wrist`
+// its rotation [x, y, z] (default: neutral space, palm toward the viewer), both given for
+// the right hand like the rest of signing space. `base` is the other hand's part of the letter.
+export interface LetterPose extends Handshape {
+    motion?: [number, number, number][];
+    at?: Position;
+    wrist?: [number, number, number];
+    base?: LetterPose;
+}
+
+// Letters and digits, lowercase, to poses
+export type FingerspellingAlphabet = { [key: string]: LetterPose };
+
+export const ASL_ALPHABET: FingerspellingAlphabet = {
+    'a': HANDSHAPES['A'],
+    'b': HANDSHAPES['B'],
+    'c': HANDSHAPES['C'],
+    'd': HANDSHAPES['D'],
+    'e': HANDSHAPES['E'],
+    'f': HANDSHAPES['F'],
+    'g': HANDSHAPES['G'],
+    'h': HANDSHAPES['H'],
+    'i': HANDSHAPES['I'],
+    'j': { // I handshape, pinky draws a J (down, then hooks toward the body)
+        ...HANDSHAPES['I'],
+        motion: [[-0.2, 0, 0], [0.2, 0, 0], [0.4, 0, 0.4], [0.3, 0, 0.8]]
+    },
+    'k': HANDSHAPES['K'],
+    'l': HANDSHAPES['L'],
+    'm': HANDSHAPES['M'],
+    'n': HANDSHAPES['N'],
+    'o': HANDSHAPES['O'],
+    'p': HANDSHAPES['P'],
+    'q': HANDSHAPES['Q'],
+    'r': HANDSHAPES['R'],
+    's': HANDSHAPES['S'],
+    't': HANDSHAPES['T'],
+    'u': HANDSHAPES['U'],
+    'v': HANDSHAPES['V'],
+    'w': HANDSHAPES['W'],
+    'x': HANDSHAPES['X'],
+    'y': HANDSHAPES['Y'],
+    'z': { // 1 handshape, index traces a Z: across, diagonally back, across
+        ...HANDSHAPES['1'],
+        motion: [[-0.5, -0.3, 0], [-0.5, 0.3, 0], [0.0, -0.3, 0], [0.0, 0.3, 0]]
+    },
 
     // Numbers 0-9
-    '0': { thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.2, pinky: 1.2 }, // O shape (same as letter O)
-    '1': { thumb: 1.5, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Index up
-    '2': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5 }, // Peace/V sign
-    '3': { thumb: 0.0, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5 }, // Thumb + index + middle
-    '4': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0 }, // Four fingers up, thumb tucked
-    '5': { thumb: 0.0, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0 }, // All five open
-    '6': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0 }, // Thumb + pinky (like Y but different orientation)
-    '7': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 0.0, pinky: 1.5 }, // Thumb + ring
-    '8': { thumb: 0.0, index: 1.5, middle: 0.0, ring: 1.5, pinky: 1.5 }, // Thumb + middle
-    '9': { thumb: 0.0, index: 0.8, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Thumb + bent index
+    '0': HANDSHAPES['O'],
+    '1': HANDSHAPES['1'],
+    '2': HANDSHAPES['V'],
+    '3': HANDSHAPES['3'],
+    '4': HANDSHAPES['4'],
+    '5': HANDSHAPES['5'],
+    '6': HANDSHAPES['6'],
+    '7': HANDSHAPES['7'],
+    '8': HANDSHAPES['8'],
+    '9': HANDSHAPES['9'],
 };
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { englishToASLGloss } from './ASLGloss';
+
+function gloss(sentence: string): string {
+    return englishToASLGloss(sentence).toString();
+}
+
+describe('sentence boundaries', () => {
+    it('reorders each sentence on its own', () => {
+        expect(gloss('My name is John. I like cookies')).toBe('MY NAME fs-JOHN / COOKIE I LIKE');
+    });
+
+    it('marks only the sentence that asks the question', () => {
+        const glossed = englishToASLGloss('I like tea. Where do you live?');
+        expect(glossed.toString()).toBe('fs-TEA I LIKE / [YOU LIVE WHERE]whq');
+        expect(glossed.question).toBe('wh');
+        expect(gloss('Hello! Do you like coffee?')).toBe('HELLO / [COFFEE YOU LIKE]y/n');
+    });
+
+    it('scopes negation within its sentence', () => {
+        expect(gloss("I don't like coffee. She likes tea.")).toBe('COFFEE I [LIKE]neg / fs-TEA SHE LIKE');
+    });
+
+    it('puts one boundary token between sentences', () => {
+        const types = englishToASLGloss('Hello! Goodbye.').tokens.map(t => t.type);
+        expect(types).toEqual(['lexical', 'boundary', 'lexical']);
+    });
+
+    it('does not end a sentence inside a number', () => {
+        expect(englishToASLGloss('It costs 3.5 dollars.').tokens.some(t => t.type === 'boundary')).toBe(false);
+    });
+});
+
+describe('fingerspelling', () => {
+    it('spells the word that was said when its mapped sign is missing', () => {
+        expect(gloss('the meeting')).toBe('fs-MEETING');
+        expect(gloss('we are meeting')).toBe('WE fs-MEETING');
+    });
+
+    it('still signs mapped words the lexicon has', () => {
+        expect(gloss('I went home')).toContain('GO');
+        expect(gloss('my friends')).toBe('MY FRIEND');
+    });
+});
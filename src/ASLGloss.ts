@@ -1,13 +1,28 @@
 // ASL Gloss Converter
 // Converts English sentences to ASL gloss order with proper grammar rules
 
+import { signRegistry } from './SignLexicon';
+import type { SignRegistry } from './SignLexicon';
+import { translateWords, foldAccents } from './SpokenLanguages';
+import type { SpokenLanguage } from './SpokenLanguages';
+import { parseNumberAt, isNumberToken } from './ASLNumbers';
+import { tagUnits, splitClauses, topicalizeClause, scopeNegation, detectQuestion, moveWhToEnd } from './ASLSyntax';
+import type { GlossUnit, QuestionType } from './ASLSyntax';
+import { GlossSentence, GlossToken } from './GlossAST';
+import type { SourceSpan } from './GlossAST';
+
 // ASL Grammar Rules Applied:
-// 1. Topic-Comment structure: Object often comes first ("I like cookies" -> "COOKIES I LIKE")
+// 1. Topic-Comment structure: Object often comes first ("I like cookies" -> "COOKIE I LIKE", see ASLSyntax.ts)
 // 2. Time indicators at beginning ("Yesterday I went" -> "YESTERDAY I GO")
 // 3. No articles (a, an, the)
 // 4. No linking verbs in simple statements (am, is, are, was, were)
 // 5. Adjectives can follow nouns
-// 6. Questions marked by facial expression, word order often similar
+// 6. Questions: WH-signs move to the end and the sentence carries a question marker
+//    ("Where do you live?" -> "[YOU LIVE WHERE]whq"); the avatar holds the last sign
+// 7. Words without a sign are fingerspelled letter by letter (fs-JOHN)
+// 8. Numbers, ordinals, years and clock times become number signs (see ASLNumbers.ts)
+// 9. Negation: the negated predicate is signed under a headshake ("I don't like coffee" ->
+//    "COFFEE I [LIKE]neg"); a separate NOT sign only when nothing follows it
 
 // Common words that should be removed (not signed in ASL)
 const SKIP_WORDS = new Set([
@@ -17,6 +32,9 @@ const SKIP_WORDS = new Set([
     'just', 'very', 'really', 'so', 'too', 'also'
 ]);
 
+// "what's", "where's" ... (also without the apostrophe, as some recognizers write them)
+const WH_CONTRACTION = /^(what|where|who|how|when|why)'?s$/;
+
 // Time indicators (should be moved to beginning)
 const TIME_WORDS = new Set([
     'yesterday', 'today', 'tomorrow', 'now', 'later', 'soon', 'already',
@@ -462,46 +480,182 @@ const WORD_MAP: { [key: string]: string } = {
     'buddies': 'FRIEND'
 };
 
+// What a conversion reads and which sign language it targets (see SignLanguages.ts).
+// Left out, it reads English and targets ASL.
+export interface GlossOptions {
+    spoken?: SpokenLanguage;   // Language of the sentence
+    lexicon?: SignRegistry;    // Signs of the target language; other words are fingerspelled
+    finalNegation?: boolean;   // Sign NOT at the end of a negated clause (BSL) instead of dropping it
+}
+
 // Convert English sentence to ASL gloss
-export function englishToASLGloss(sentence: string): string[] {
-    // 1. Clean and tokenize
-    const cleaned = sentence.toLowerCase().replace(/[^a-z0-9'\s-]/g, ' ');
-    const words = cleaned.split(/\s+/).filter(w => w.length > 0);
+export function englishToASLGloss(sentence: string): GlossSentence {
+    return sentenceToGloss(sentence);
+}
 
-    // 2. Process words
-    const timeWords: string[] = [];
-    const contentWords: string[] = [];
+// Convert a spoken sentence to sign gloss
+export function sentenceToGloss(sentence: string, options: GlossOptions = {}): GlossSentence {
+    // 1. Clean and tokenize (colons are kept inside clock times like 3:30, and commas
+    // between digit groups like 1,000). Cleaning keeps every character in place, so word
+    // offsets are offsets into the sentence.
+    const cleaned = sentence.toLowerCase()
+        .replace(/(\d):(\d)/g, '$1\u0000$2')
+        .replace(/(?<=\d),(?=\d{3}(?!\d))/g, '\u0001')
+        .replace(/[^a-z0-9à-öø-ÿ'\s\u0000\u0001-]/g, ' ')
+        .replace(/\u0000/g, ':')
+        .replace(/\u0001/g, ',');
 
-    for (const word of words) {
-        // Skip articles and linking verbs
-        if (SKIP_WORDS.has(word)) continue;
+    // Sentences end at . ! or ? before a space or the end ("3.5" doesn't end one)
+    const ends = [...sentence.matchAll(/[.!?]+(?=\s|$)/g)].map(m => ({ at: m.index!, question: m[0].includes('?') }));
+    const sentences: { words: string[], spans: SourceSpan[] }[] = ends.map(() => ({ words: [], spans: [] }));
+    sentences.push({ words: [], spans: [] }); // Text after the last end
+    for (const match of cleaned.matchAll(/\S+/g)) {
+        const part = sentences[ends.filter(e => e.at < match.index!).length];
+        part.words.push(match[0]);
+        part.spans.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+
+    // Each sentence is reordered and marked on its own, with a boundary between them
+    const known = options.lexicon ? new Set(options.lexicon.glosses()) : getKnownSignWords();
+    const tokens: GlossToken[] = [];
+    let question: QuestionType | null = null;
+    sentences.forEach(({ words, spans }, i) => {
+        const glossed = glossOneSentence(words, spans, i < ends.length && ends[i].question, known, options);
+        if (glossed.tokens.length === 0) return;
+        if (tokens.length > 0) tokens.push(new GlossToken('boundary', BOUNDARY_TOKEN, null));
+        tokens.push(...glossed.tokens);
+        if (glossed.question) question = glossed.question;
+    });
+    return new GlossSentence(sentence, tokens, question);
+}
+
+// Gloss the words of one sentence (steps 2 to 4)
+function glossOneSentence(
+    words: string[],
+    spans: SourceSpan[],
+    hasQuestionMark: boolean,
+    known: Set<string>,
+    options: GlossOptions
+): { tokens: GlossToken[], question: QuestionType | null } {
+    // Other spoken languages are read as English words that keep their source spans
+    if (options.spoken) {
+        const translated = translateWords(options.spoken, words);
+        spans = translated.map(t => ({ start: spans[t.from].start, end: spans[t.to].end }));
+        words = translated.map(t => t.word);
+    }
+
+    // WH-contractions are read as two words ("what's" -> what is), both from the one span
+    const expanded = words.flatMap((word, i) => {
+        const wh = word.match(WH_CONTRACTION);
+        return wh ? [{ word: wh[1], span: spans[i] }, { word: 'is', span: spans[i] }] : [{ word, span: spans[i] }];
+    });
+    words = expanded.map(e => e.word);
+    spans = expanded.map(e => e.span);
+
+    // 2. Build units (skipped words stay in with no glosses so the tagger can use them)
+    const timeUnits: GlossUnit[] = [];
+    const units: GlossUnit[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+
+        // Numbers may span several words ("twenty five"); clock times count as time words
+        const number = parseNumberAt(words, i);
+        if (number) {
+            const span = { start: spans[i].start, end: spans[i + number.length - 1].end };
+            const unit: GlossUnit = { word: words.slice(i, i + number.length).join(' '), glosses: number.glosses, tag: 'NUM', span };
+            (number.isTime ? timeUnits : units).push(unit);
+            i += number.length - 1;
+            continue;
+        }
 
         // Check if it's a time word
         if (TIME_WORDS.has(word)) {
-            timeWords.push(word.toUpperCase());
+            timeUnits.push({ word, glosses: [word.toUpperCase()], tag: 'ADV', span: spans[i] });
             continue;
         }
 
-        // Map word or use as-is
-        const mapped = WORD_MAP[word] || word.toUpperCase();
-        contentWords.push(mapped);
+        // Skip articles and linking verbs; map the rest or use as-is
+        const glosses = SKIP_WORDS.has(word) ? [] : [WORD_MAP[word] || word.toUpperCase()];
+        units.push({ word, glosses, tag: 'NOUN', span: spans[i] });
     }
 
-    // 3. ASL order: TIME + CONTENT
-    // Note: Full topic-comment reordering would require NLP parsing
-    // For now, we keep subject-verb-object but move time to front
-    const result = [...timeWords, ...contentWords];
+    // 3. ASL order: TIME + topic-comment clauses ("I like cookies" -> COOKIE I LIKE)
+    const tagged = tagUnits(units);
+    // Questions are found in the spoken order: "tomorrow is monday" doesn't start with IS
+    const spoken = [...timeUnits, ...tagged].sort((a, b) => a.span.start - b.span.start);
+    const question = detectQuestion(spoken, hasQuestionMark);
+    // Negation is scoped per clause, after reordering ("COFFEE I [LIKE]neg")
+    let ordered = splitClauses(tagged).map(c => scopeNegation(topicalizeClause(c), options.finalNegation)).flat();
+
+    // WH-signs go last ("where do you live" -> YOU LIVE WHERE)
+    if (question === 'wh') ordered = moveWhToEnd(ordered);
 
-    return result;
+    // 4. Type each gloss, fingerspelling anything the lexicon has no sign for
+    const tokens = toGlossTokens([...timeUnits, ...ordered], known);
+
+    // A question's brow marker spans the whole sentence
+    if (question) tokens.forEach(t => t.modifiers.question = question);
+    return { tokens, question };
 }
 
-// Get list of words that have known sign animations
-// Auto-generated from WORD_MAP values + explicit additions
-export function getKnownSignWords(): Set<string> {
-    // Start with all mapped values (verbs, nouns, etc.)
-    const knownWords = new Set(Object.values(WORD_MAP));
+// Turn ordered units into typed tokens. Words with no sign become fingerspell tokens
+// ("JOHN"), with a pause between two spelled words in a row.
+function toGlossTokens(units: GlossUnit[], known: Set<string>): GlossToken[] {
+    const tokens: GlossToken[] = [];
+    let lastWasSpelled = false;
+
+    for (const unit of units) {
+        const negated = unit.negated === true;
+
+        for (const gloss of unit.glosses) {
+            // Number signs are played with number handshapes
+            if (isNumberToken(gloss)) {
+                tokens.push(new GlossToken('number', gloss, unit.span));
+                lastWasSpelled = false;
+                continue;
+            }
+
+            // Plain plurals ("DOGS") use the singular sign
+            const singular = gloss.endsWith('S') ? gloss.slice(0, -1) : gloss;
+            if (known.has(gloss) || known.has(singular)) {
+                const sign = known.has(gloss) ? gloss : singular;
+                const type = sign.startsWith(CLASSIFIER_PREFIX) ? 'classifier' : 'lexical';
+                tokens.push(new GlossToken(type, sign, unit.span, { negated }));
+                lastWasSpelled = false;
+                continue;
+            }
+
+            // A mapped word with no sign is spelled as said ("meeting", not MEET).
+            // Apostrophes and hyphens aren't spelled, accented letters are spelled plain.
+            const spelled = WORD_MAP[unit.word] === gloss ? unit.word.toUpperCase() : gloss;
+            const letters = foldAccents(spelled).replace(/[^A-Z0-9]/g, '');
+            if (letters.length === 0) continue;
+
+            // Back-to-back spelled words would run together without a pause
+            if (lastWasSpelled) tokens.push(new GlossToken('pause', PAUSE_TOKEN, null, { negated }));
+            tokens.push(new GlossToken('fingerspell', letters, unit.span, { negated }));
+            lastWasSpelled = true;
+        }
+    }
 
-    // Add base words that weren't in the map
+    return tokens;
+}
+
+// Gloss of the pause token between two fingerspelled words in a row
+const PAUSE_TOKEN = 'PAUSE';
+const BOUNDARY_TOKEN = 'BOUNDARY';
+
+// Lexicon glosses for classifier predicates start with CL: ("CL:3")
+const CLASSIFIER_PREFIX = 'CL:';
+
+// Every gloss the converter can produce from its own tables (mapped words, fronted time words)
+// plus common words it passes through as-is. Used to check lexicon coverage.
+export function getGlossVocabulary(): Set<string> {
+    const glosses = new Set(Object.values(WORD_MAP));
+    TIME_WORDS.forEach(w => glosses.add(w.toUpperCase()));
+
+    // Common words that pass through unmapped
     const baseWords = [
         // Greetings
         'HELLO', 'GOODBYE', 'YES', 'NO', 'THANK', 'PLEASE', 'SORRY',
@@ -537,9 +691,8 @@ export function getKnownSignWords(): Set<string> {
         'DOG', 'CAT', 'BIRD', 'FISH', 'HORSE', 'COW', 'PIG', 'CHICKEN', 'ANIMAL',
         // Colors
         'RED', 'BLUE', 'GREEN', 'YELLOW', 'BLACK', 'WHITE', 'ORANGE', 'PURPLE', 'PINK', 'BROWN', 'GRAY',
-        // Numbers as words
-        'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN',
-        'HUNDRED', 'THOUSAND', 'MILLION', 'FIRST', 'SECOND', 'THIRD', 'LAST',
+        // Numbers (the rest become NUM_ / ORD_ number signs)
+        'HUNDRED', 'THOUSAND', 'MILLION', 'LAST',
         // Time
         'TIME', 'DAY', 'WEEK', 'MONTH', 'YEAR', 'TODAY', 'TOMORROW', 'YESTERDAY', 'NOW', 'LATER',
         'BEFORE', 'AFTER', 'MORNING', 'AFTERNOON', 'EVENING', 'NIGHT', 'HOUR', 'MINUTE', 'SECOND',
@@ -569,8 +722,13 @@ export function getKnownSignWords(): Set<string> {
         'DONE', 'FINISH', 'COMPLETE', 'READY', 'WAIT', 'HURRY', 'RELAX'
     ];
 
-    baseWords.forEach(w => knownWords.add(w));
+    baseWords.forEach(w => glosses.add(w));
+
+    return glosses;
+}
 
-    return knownWords;
+// Get list of words that have sign animations in the lexicon
+export function getKnownSignWords(): Set<string> {
+    return new Set(signRegistry.glosses());
 }
 
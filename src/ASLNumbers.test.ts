@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseNumberAt, ordinalLabel } from './ASLNumbers';
+import { englishToASLGloss } from './ASLGloss';
+
+// The number signs read from the start of a sentence
+function numberGlosses(sentence: string): string[] | null {
+    const parsed = parseNumberAt(sentence.split(' '), 0);
+    return parsed ? parsed.glosses : null;
+}
+
+function gloss(sentence: string): string {
+    return englishToASLGloss(sentence).toString();
+}
+
+describe('spelled-out numbers', () => {
+    it('adds words that fill different places', () => {
+        expect(numberGlosses('twenty five')).toEqual(['NUM_25']);
+        expect(numberGlosses('one hundred and two')).toEqual(['NUM_1', 'HUNDRED', 'NUM_2']);
+        expect(numberGlosses('twenty-first')).toEqual(['ORD_21']);
+    });
+
+    it('signs digits read one by one as one number', () => {
+        expect(numberGlosses('one two three')).toEqual(['NUM_123']);
+        expect(gloss('call me at five five five')).toBe('CALL I 555');
+    });
+
+    it('keeps a year said as two pairs as two pairs', () => {
+        expect(numberGlosses('twenty twenty four')).toEqual(['NUM_20', 'NUM_24']);
+        expect(numberGlosses('nineteen ninety five')).toEqual(['NUM_19', 'NUM_95']);
+    });
+});
+
+describe('hyphenated words', () => {
+    it('are numbers only when every part is a number word', () => {
+        expect(numberGlosses('one-way street')).toBeNull();
+        expect(numberGlosses('five-star hotel')).toBeNull();
+        expect(numberGlosses('first-class')).toBeNull();
+        expect(numberGlosses('twenty-')).toBeNull();
+        expect(numberGlosses('twenty-five')).toEqual(['NUM_25']);
+    });
+
+    it('are glossed as words in a sentence', () => {
+        expect(gloss('one-way street')).toBe('fs-ONEWAY STREET');
+        expect(gloss('it is a one-way street')).toBe('IT fs-ONEWAY STREET');
+        expect(gloss('a five-star hotel')).toBe('fs-FIVESTAR HOTEL');
+    });
+});
+
+describe('digit numbers', () => {
+    it('reads thousands separators as one number', () => {
+        expect(gloss('1,000,000')).toBe('1 MILLION');
+    });
+
+    it('does not join numbers separated by a comma and space', () => {
+        expect(gloss('In 2010, 300 people came')).toBe('IN 20 10 3 HUNDRED PEOPLE COME');
+    });
+
+    it('reads impossible clock times as plain numbers', () => {
+        expect(numberGlosses('3:30')).toEqual(['TIME', 'NUM_3', 'NUM_30']);
+        expect(numberGlosses('12:75')).toEqual(['NUM_12', 'NUM_75']);
+        expect(numberGlosses('25:00')).toEqual(['NUM_25', 'NUM_0']);
+    });
+});
+
+describe('ordinals', () => {
+    it('reads "second" as an ordinal only before something it counts', () => {
+        expect(gloss('my second car')).toBe('MY 2ND CAR');
+        expect(gloss('a second chance')).toBe('2ND fs-CHANCE');
+        expect(gloss('wait a second')).toBe('fs-WAIT fs-SECOND');
+    });
+
+    it('keeps the ordinal above ninth', () => {
+        expect(numberGlosses('30th')).toEqual(['ORD_30']);
+        expect(numberGlosses('100th')).toEqual(['ORD_100']);
+        expect(numberGlosses('250th')).toEqual(['NUM_2', 'HUNDRED', 'ORD_50']);
+    });
+
+    it('labels ordinals by their last digits', () => {
+        expect(['1', '2', '3', '4', '11', '12', '13', '22', '101'].map(ordinalLabel))
+            .toEqual(['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '22nd', '101st']);
+    });
+});
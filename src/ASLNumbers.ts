@@ -0,0 +1,307 @@
+// ASL Number Glosses
+// Turns digits, spelled-out numbers, ordinals, years and clock times into number signs.
+
+// Number Sign Tokens:
+// NUM_<digits>  one number sign, digits shown in sequence with number handshapes ("NUM_25")
+// ORD_<digits>  ordinal: the number handshape(s) with a twist of the wrist ("ORD_1", "ORD_30")
+// HUNDRED / THOUSAND / MILLION  place-value signs between number signs (lexicon/numbers.json)
+// TIME          clock times start with TIME (tap the wrist), then the hour and minutes
+
+// ASL Number Rules Applied:
+// 1. 0-99 are single number signs
+// 2. Larger numbers use place-value signs: 250 -> 2 HUNDRED 50
+// 3. Years split into two pairs: 1995 -> 19 95, but 2005 -> 2 THOUSAND 5.
+//    Spoken pairs stay pairs: "nineteen ninety five" -> 19 95, "twenty twenty four" -> 20 24
+// 4. Clock times: "3:30" -> TIME 3 30, and are fronted like other time indicators
+// 5. Ordinals twist their last number sign: 30th -> ORD_30, 250th -> 2 HUNDRED ORD_50
+// 6. Digits read one by one ("five five five") are signed one digit at a time: NUM_555
+
+export const NUMBER_PREFIX = 'NUM_';
+export const ORDINAL_PREFIX = 'ORD_';
+
+const UNITS: { [key: string]: number } = {
+    'zero': 0, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6, 'seven': 7,
+    'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11, 'twelve': 12, 'thirteen': 13, 'fourteen': 14,
+    'fifteen': 15, 'sixteen': 16, 'seventeen': 17, 'eighteen': 18, 'nineteen': 19
+};
+
+const TENS: { [key: string]: number } = {
+    'twenty': 20, 'thirty': 30, 'forty': 40, 'fifty': 50, 'sixty': 60, 'seventy': 70, 'eighty': 80, 'ninety': 90
+};
+
+const SCALES: { [key: string]: number } = {
+    'hundred': 100, 'thousand': 1000, 'million': 1000000
+};
+
+const ORDINALS: { [key: string]: number } = {
+    'first': 1, 'second': 2, 'third': 3, 'fourth': 4, 'fifth': 5, 'sixth': 6, 'seventh': 7, 'eighth': 8,
+    'ninth': 9, 'tenth': 10, 'eleventh': 11, 'twelfth': 12, 'thirteenth': 13, 'fourteenth': 14,
+    'fifteenth': 15, 'sixteenth': 16, 'seventeenth': 17, 'eighteenth': 18, 'nineteenth': 19,
+    'twentieth': 20, 'thirtieth': 30, 'fortieth': 40, 'fiftieth': 50, 'sixtieth': 60,
+    'seventieth': 70, 'eightieth': 80, 'ninetieth': 90, 'hundredth': 100, 'thousandth': 1000
+};
+
+// Words right before a 4-digit number that make it a year ("in 1995")
+const YEAR_CONTEXT = new Set([
+    'in', 'since', 'until', 'from', 'by', 'year', 'during', 'before', 'after',
+    'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+    'september', 'october', 'november', 'december'
+]);
+
+// Words before "second" that make it the ordinal ("my second car"), not the time unit.
+// After "a" it also needs a word to describe: "a second chance", but "wait a second".
+const SECOND_ORDINAL_CONTEXT = new Set([
+    'the', 'my', 'your', 'his', 'her', 'our', 'their', 'a', 'this', 'that', 'every'
+]);
+
+// Words after an hour that make it a clock time
+const CLOCK_SUFFIXES = new Set(['am', 'pm', "o'clock", 'oclock']);
+
+export interface NumberGloss {
+    glosses: string[];
+    length: number;   // How many input words were consumed
+    isTime: boolean;  // Clock times are fronted with the other time words
+}
+
+export function isNumberToken(gloss: string): boolean {
+    return gloss.startsWith(NUMBER_PREFIX) || gloss.startsWith(ORDINAL_PREFIX);
+}
+
+// Digits of a number token ("NUM_25" -> "25")
+export function numberTokenDigits(gloss: string): string {
+    return gloss.slice(gloss.indexOf('_') + 1);
+}
+
+// "1" -> "1st", "22" -> "22nd", "12" -> "12th"
+export function ordinalLabel(digits: string): string {
+    const suffix: { [key: string]: string } = { '1': 'st', '2': 'nd', '3': 'rd' };
+    const teen = digits.length > 1 && digits[digits.length - 2] === '1';
+    return digits + (teen ? 'th' : suffix[digits[digits.length - 1]] || 'th');
+}
+
+// Number signs for a whole number, using place-value signs above 99
+export function numberToGlosses(n: number): string[] {
+    if (n < 100) return [`${NUMBER_PREFIX}${n}`];
+
+    const result: string[] = [];
+    let rest = n;
+    for (const [scale, name] of [[1000000, 'MILLION'], [1000, 'THOUSAND'], [100, 'HUNDRED']] as [number, string][]) {
+        if (rest >= scale) {
+            result.push(...numberToGlosses(Math.floor(rest / scale)), name);
+            rest = rest % scale;
+        }
+    }
+    if (rest > 0) result.push(`${NUMBER_PREFIX}${rest}`);
+    return result;
+}
+
+// Years are signed as two pairs, except 2000-2009
+function yearToGlosses(year: number): string[] {
+    if (year >= 2000 && year < 2010) return numberToGlosses(year);
+    const century = Math.floor(year / 100);
+    const rest = year % 100;
+    // 1905 -> 19 0 5 ("nineteen oh five")
+    const restGloss = rest < 10 ? `${NUMBER_PREFIX}0${rest}` : `${NUMBER_PREFIX}${rest}`;
+    return [`${NUMBER_PREFIX}${century}`, restGloss];
+}
+
+// The last number sign carries the ordinal twist; round ones (100th) are one ordinal sign
+function ordinalToGlosses(n: number): string[] {
+    const glosses = numberToGlosses(n);
+    const last = glosses[glosses.length - 1];
+    if (!last.startsWith(NUMBER_PREFIX)) return [`${ORDINAL_PREFIX}${n}`];
+    glosses[glosses.length - 1] = ORDINAL_PREFIX + numberTokenDigits(last);
+    return glosses;
+}
+
+function isClockTime(hour: number, minutes: number): boolean {
+    return hour >= 0 && hour <= 23 && minutes >= 0 && minutes <= 59;
+}
+
+function clockToGlosses(hour: number, minutes: string | null): string[] {
+    const result = ['TIME', `${NUMBER_PREFIX}${hour}`];
+    if (minutes !== null && minutes !== '00') result.push(`${NUMBER_PREFIX}${minutes}`);
+    return result;
+}
+
+// Place of a number word, to tell where one spelled number ends and the next begins
+type NumberWordKind = 'unit' | 'teen' | 'tens' | 'scale';
+
+function numberWordKind(part: string): NumberWordKind | null {
+    if (part in SCALES) return 'scale';
+    const value = part in UNITS ? UNITS[part] : part in TENS ? TENS[part] : part in ORDINALS ? ORDINALS[part] : null;
+    if (value === null) return null;
+    return value >= 100 ? 'scale' : value >= 20 ? 'tens' : value >= 10 ? 'teen' : 'unit';
+}
+
+// Whether a number word can't continue the number so far: a unit or teen after a unit or
+// teen ("one two", "nineteen five"), or tens or a teen after tens ("twenty twenty")
+function startsNewNumber(kind: NumberWordKind, previous: NumberWordKind | null): boolean {
+    if (previous === null || previous === 'scale' || kind === 'scale') return false;
+    // Only a unit can follow tens ("twenty five")
+    return kind !== 'unit' || previous !== 'tens';
+}
+
+// Read a spelled-out number starting at words[start] ("twenty five", "one hundred and two")
+function readSpelledNumber(words: string[], start: number): { value: number, length: number, ordinal: boolean } | null {
+    let total = 0;
+    let current = 0;
+    let i = start;
+    let matched = false;
+    let ordinal = false;
+    let afterScale = false;
+    let previous: NumberWordKind | null = null;
+
+    while (i < words.length && !ordinal) {
+        // "twenty-five" arrives as one token
+        const parts = words[i].split('-');
+        const kind = numberWordKind(parts[0]);
+        if (kind && startsNewNumber(kind, previous)) break;
+        // Only whole number words count: "one-way" and "five-star" aren't numbers
+        const consumed = parts.every(part => numberWordKind(part) !== null);
+
+        for (const part of consumed ? parts : []) {
+            if (part in UNITS) {
+                current += UNITS[part];
+            } else if (part in TENS) {
+                current += TENS[part];
+            } else if (part in ORDINALS) {
+                const value = ORDINALS[part];
+                if (value >= 100) current = Math.max(current, 1) * value;
+                else current += value;
+                ordinal = true;
+            } else if (part in SCALES) {
+                // "a hundred" has no leading number word
+                const scale = SCALES[part];
+                if (scale === 100) {
+                    current = Math.max(current, 1) * scale;
+                } else {
+                    total += Math.max(current, 1) * scale;
+                    current = 0;
+                }
+            }
+            matched = true;
+            afterScale = part in SCALES;
+            previous = numberWordKind(part);
+        }
+
+        if (!consumed) {
+            // "and" only continues a number after a place value ("one hundred and two")
+            if (words[i] === 'and' && afterScale && i + 1 < words.length && readSpelledNumber(words, i + 1)) {
+                i++;
+                continue;
+            }
+            break;
+        }
+        i++;
+    }
+
+    if (!matched || i === start) return null;
+    return { value: total + current, length: i - start, ordinal };
+}
+
+// Try to read a number at words[start]. Returns null if the word isn't a number.
+export function parseNumberAt(words: string[], start: number): NumberGloss | null {
+    const word = words[start];
+    const next = words[start + 1];
+    const prev = start > 0 ? words[start - 1] : '';
+
+    // Clock time "3:30" (optionally followed by am/pm); "12:75" is read as two numbers
+    const clock = word.match(/^(\d{1,2}):(\d{2})$/);
+    if (clock) {
+        const hour = parseInt(clock[1], 10);
+        const minutes = parseInt(clock[2], 10);
+        if (!isClockTime(hour, minutes)) {
+            return { glosses: [...numberToGlosses(hour), ...numberToGlosses(minutes)], length: 1, isTime: false };
+        }
+        const suffix = next !== undefined && CLOCK_SUFFIXES.has(next) ? 1 : 0;
+        return { glosses: clockToGlosses(hour, clock[2]), length: 1 + suffix, isTime: true };
+    }
+
+    // Hour with suffix "3pm", "3 pm", "3 o'clock"
+    const hourSuffix = word.match(/^(\d{1,2})(am|pm)$/);
+    if (hourSuffix) {
+        return { glosses: clockToGlosses(parseInt(hourSuffix[1], 10), null), length: 1, isTime: true };
+    }
+
+    // Ordinal digits "1st", "22nd"
+    const ordinal = word.match(/^(\d+)(st|nd|rd|th)$/);
+    if (ordinal) {
+        return { glosses: ordinalToGlosses(parseInt(ordinal[1], 10)), length: 1, isTime: false };
+    }
+
+    // Plain digits, with or without thousands separators ("1,000" is kept whole in cleaning)
+    if (/^\d{1,3}(,\d{3})+$/.test(word) || /^\d+$/.test(word)) {
+        const digits = word.replace(/,/g, '');
+        const length = 1;
+
+        const value = parseInt(digits, 10);
+        if (next !== undefined && CLOCK_SUFFIXES.has(next) && value <= 12) {
+            return { glosses: clockToGlosses(value, null), length: 2, isTime: true };
+        }
+        if (digits.length === 4 && value >= 1100 && value < 2100 && YEAR_CONTEXT.has(prev)) {
+            return { glosses: yearToGlosses(value), length, isTime: false };
+        }
+        // Leading zeros are signed as digits ("007")
+        if (digits.length > 1 && digits.startsWith('0')) {
+            return { glosses: [`${NUMBER_PREFIX}${digits}`], length, isTime: false };
+        }
+        return { glosses: numberToGlosses(value), length, isTime: false };
+    }
+
+    // "second" is usually the time unit ("wait a second"); only read it as an ordinal after
+    // "the", a possessive or a determiner
+    if (word === 'second' && (!SECOND_ORDINAL_CONTEXT.has(prev) || (prev === 'a' && next === undefined))) return null;
+
+    // Spelled-out numbers and ordinals
+    const spelled = readSpelledNumber(words, start);
+    if (spelled) {
+        // Digits read one at a time ("five five five") make one digit-by-digit number sign
+        if (!spelled.ordinal && spelled.length === 1 && isDigitWord(word)) {
+            let digits = String(UNITS[word]);
+            while (start + digits.length < words.length && isDigitWord(words[start + digits.length])) {
+                digits += String(UNITS[words[start + digits.length]]);
+            }
+            if (digits.length > 1) {
+                return { glosses: [`${NUMBER_PREFIX}${digits}`], length: digits.length, isTime: false };
+            }
+        }
+
+        // A year said as two pairs ("nineteen ninety five", "twenty twenty four")
+        const century = spelled.value;
+        if (!spelled.ordinal && century >= 11 && century <= 20 && !words.slice(start, start + spelled.length).some(isScaleWord)) {
+            const pairStart = start + spelled.length;
+            const pair = pairStart < words.length && words[pairStart].split('-')[0] in TENS
+                ? readSpelledNumber(words, pairStart)
+                : null;
+            if (pair && !pair.ordinal && pair.value < 100) {
+                return {
+                    glosses: [`${NUMBER_PREFIX}${century}`, `${NUMBER_PREFIX}${pair.value}`],
+                    length: spelled.length + pair.length,
+                    isTime: false
+                };
+            }
+        }
+
+        const after = words[start + spelled.length];
+        if (!spelled.ordinal && after !== undefined && CLOCK_SUFFIXES.has(after) && spelled.value <= 12) {
+            return { glosses: clockToGlosses(spelled.value, null), length: spelled.length + 1, isTime: true };
+        }
+        return {
+            glosses: spelled.ordinal ? ordinalToGlosses(spelled.value) : numberToGlosses(spelled.value),
+            length: spelled.length,
+            isTime: false
+        };
+    }
+
+    return null;
+}
+
+// "zero" to "nine", as read out in phone numbers
+function isDigitWord(word: string): boolean {
+    return word in UNITS && UNITS[word] < 10;
+}
+
+function isScaleWord(word: string): boolean {
+    return word.split('-').some(part => numberWordKind(part) === 'scale');
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { englishToASLGloss } from './ASLGloss';
+import { glossFor, SIGN_LANGUAGES } from './SignLanguages';
+
+function questionOf(sentence: string) {
+    return englishToASLGloss(sentence).question;
+}
+
+describe('detectQuestion', () => {
+    it('finds questions without a question mark from word order', () => {
+        expect(questionOf('do you like coffee')).toBe('yes-no');
+        expect(questionOf('is he deaf')).toBe('yes-no');
+        expect(questionOf('can you help me')).toBe('yes-no');
+        expect(questionOf('does your dog like cookies')).toBe('yes-no');
+        expect(questionOf("don't you like tea")).toBe('yes-no');
+        expect(questionOf('where do you live')).toBe('wh');
+        expect(questionOf('tomorrow where are you going')).toBe('wh');
+    });
+
+    it('does not read an auxiliary after a time word as inverted', () => {
+        expect(questionOf('Tomorrow is Monday')).toBeNull();
+        expect(questionOf('Yesterday was fun')).toBeNull();
+    });
+
+    it('does not read commands starting with an auxiliary as questions', () => {
+        expect(questionOf('Have a nice day')).toBeNull();
+        expect(questionOf('Do your homework')).toBeNull();
+    });
+
+    it('reads WH-contractions as the WH-word and "is"', () => {
+        expect(englishToASLGloss("what's your name").toString()).toBe('[YOU NAME WHAT]whq');
+        expect(englishToASLGloss("where's the bathroom").toString()).toBe('[BATHROOM WHERE]whq');
+    });
+
+    it('looks past a greeting for the question', () => {
+        expect(questionOf('hello how are you')).toBe('wh');
+        expect(questionOf('hi can you help me')).toBe('yes-no');
+    });
+
+    it('takes "have" after the subject as the verb', () => {
+        expect(questionOf('Can I have water')).toBe('yes-no');
+        expect(questionOf('do you have a car')).toBe('yes-no');
+    });
+
+    it('trusts a question mark', () => {
+        expect(questionOf('Tomorrow is Monday?')).toBe('yes-no');
+        expect(questionOf('You live where?')).toBe('wh');
+    });
+});
+
+describe('topic-comment order', () => {
+    const gloss = (sentence: string) => englishToASLGloss(sentence).toString();
+
+    it('fronts a noun object', () => {
+        expect(gloss('I like cookies')).toBe('COOKIE I LIKE');
+        expect(gloss('she eats pizza')).toBe('PIZZA SHE EAT');
+        // Adjectives follow their noun
+        expect(gloss('I like the big dog')).toBe('DOG BIG I LIKE');
+    });
+
+    it('fronts the object of each clause within the clause', () => {
+        expect(gloss('I want cookies and she likes tea')).toBe('COOKIE I WANT AND fs-TEA SHE LIKE');
+    });
+
+    it('leaves pronoun objects in place', () => {
+        expect(gloss('I love you')).toBe('I LOVE YOU');
+        expect(gloss('I see her')).toBe('I SEE fs-HER');
+    });
+
+    it('leaves WH-questions in order, moving only the WH-sign', () => {
+        expect(gloss('what do you like')).toBe('[YOU LIKE WHAT]whq');
+    });
+
+    it('does not move an object across a sentence boundary', () => {
+        expect(gloss('My name is John. I like cookies')).toBe('MY NAME fs-JOHN / COOKIE I LIKE');
+    });
+});
+
+describe('negation', () => {
+    const asl = (sentence: string) => glossFor(sentence, SIGN_LANGUAGES.asl);
+    const bsl = (sentence: string) => glossFor(sentence, SIGN_LANGUAGES.bsl);
+
+    it('marks the predicate with a headshake and drops NOT in ASL', () => {
+        expect(asl("I don't like coffee").toString()).toBe('COFFEE I [LIKE]neg');
+        expect(asl('I do not want to eat').toString()).toBe('I [WANT EAT]neg');
+    });
+
+    it('spans the headshake from the negation to the end of its clause', () => {
+        const tokens = asl('I do not want to eat').tokens;
+        expect(tokens.map(t => [t.gloss, t.modifiers.negated])).toEqual([
+            ['I', false], ['WANT', true], ['EAT', true]
+        ]);
+    });
+
+    it('keeps the modal of a negated contraction under the headshake', () => {
+        expect(asl("I can't go").toString()).toBe('I [CAN GO]neg');
+    });
+
+    it('signs NOT at the end of the negated clause in BSL', () => {
+        expect(bsl("I don't like coffee").toString()).toBe('fs-COFFEE I [LIKE NOT]neg');
+        expect(bsl('I do not want to eat').toString()).toBe('I [WANT EAT NOT]neg');
+    });
+
+    it('keeps the negation inside a question', () => {
+        expect(asl("don't you like tea").toString()).toBe('[fs-TEA [YOU LIKE]neg]y/n');
+    });
+});
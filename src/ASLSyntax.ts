@@ -0,0 +1,383 @@
+// ASL Syntax
+// A small offline part-of-speech tagger and dependency-lite clause parser.
+// It finds subject, verb and object so the gloss converter can put sentences in
+// topic-comment order: "I like cookies" -> COOKIE I LIKE.
+
+import type { SourceSpan } from './GlossAST';
+
+export type PartOfSpeech =
+    'NOUN' | 'PRON' | 'VERB' | 'AUX' | 'MODAL' | 'ADJ' | 'ADV' | 'DET' |
+    'PREP' | 'PART' | 'CONJ' | 'NUM' | 'WH' | 'NEG' | 'INTJ';
+
+// One word (or a multi-word number) moving through the gloss pipeline
+export interface GlossUnit {
+    word: string;        // English source ("cookies", "twenty five")
+    glosses: string[];   // What gets signed (empty for skipped words like "the")
+    tag: PartOfSpeech;
+    span: SourceSpan;    // Where the word sits in the input sentence
+    negated?: boolean;   // Inside a negation's scope (signed under a headshake)
+}
+
+// --- Tagger word lists ---
+
+const PRONOUNS = new Set([
+    'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'us', 'them',
+    'myself', 'yourself', 'himself', 'herself', 'itself', 'ourselves', 'themselves',
+    'someone', 'somebody', 'everyone', 'everybody', 'anyone', 'nobody', 'something', 'everything', 'nothing',
+    "i'm", 'im', "i've", 'ive', "i'll", "you're", 'youre', "you've", "you'll", "he's", "she's", "it's",
+    "we're", "we've", "we'll", "they're", "they'll", "he'll", "she'll", "it'll"
+]);
+
+// Possessives and articles come before a noun
+const DETERMINERS = new Set([
+    'a', 'an', 'the', 'this', 'that', 'these', 'those', 'some', 'any', 'every', 'each',
+    'my', 'your', 'his', 'her', 'its', 'our', 'their', 'another', 'other'
+]);
+
+const AUXILIARIES = new Set([
+    'am', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+    'do', 'does', 'did', 'have', 'has', 'had', 'having'
+]);
+
+const MODALS = new Set(['can', 'could', 'will', 'would', 'shall', 'should', 'may', 'might', 'must']);
+
+const PREPOSITIONS = new Set([
+    'to', 'of', 'for', 'at', 'by', 'with', 'about', 'into', 'through', 'in', 'on', 'from',
+    'under', 'over', 'near', 'after', 'before', 'between', 'without', 'during', 'around', 'behind'
+]);
+
+const CONJUNCTIONS = new Set(['and', 'but', 'or', 'because', 'so', 'if', 'while', 'until', 'then']);
+
+const WH_WORDS = new Set(['what', 'where', 'when', 'who', 'whom', 'whose', 'why', 'how', 'which']);
+
+const NEGATIONS = new Set([
+    'not', 'never', 'no', "don't", 'dont', "doesn't", 'doesnt', "didn't", 'didnt', "won't", 'wont',
+    "can't", 'cant', 'cannot', "isn't", 'isnt', "aren't", 'arent', "wasn't", 'wasnt', "weren't", 'werent',
+    "haven't", 'havent', "hasn't", 'hasnt', "hadn't", 'hadnt', "wouldn't", 'wouldnt',
+    "couldn't", 'couldnt', "shouldn't", 'shouldnt', "mustn't", 'mustnt'
+]);
+
+const INTERJECTIONS = new Set([
+    'hello', 'hi', 'hey', 'yes', 'yeah', 'yep', 'okay', 'ok', 'please', 'thanks', 'thank', 'bye', 'goodbye', 'sorry', 'wow'
+]);
+
+const ADVERBS = new Set([
+    'very', 'really', 'just', 'also', 'too', 'so', 'again', 'still', 'already', 'always', 'often',
+    'sometimes', 'usually', 'maybe', 'probably', 'here', 'there', 'now', 'soon', 'later', 'today',
+    'tomorrow', 'yesterday', 'only', 'even', 'yet', 'up', 'down', 'out', 'away', 'back'
+]);
+
+// Signs that are verbs (base-form glosses; inflected English forms map onto these)
+const VERB_GLOSSES = new Set([
+    'GO', 'COME', 'EAT', 'DRINK', 'SLEEP', 'WAKE', 'WORK', 'PLAY', 'LEARN', 'TEACH',
+    'KNOW', 'THINK', 'SEE', 'HEAR', 'FEEL', 'UNDERSTAND', 'REMEMBER', 'FORGET',
+    'WANT', 'NEED', 'LIKE', 'LOVE', 'HATE', 'HELP', 'GIVE', 'TAKE', 'GET', 'MAKE',
+    'SAY', 'TELL', 'ASK', 'ANSWER', 'TALK', 'SPEAK', 'CALL', 'WAIT', 'LOOK', 'WATCH',
+    'LISTEN', 'READ', 'WRITE', 'DRAW', 'SING', 'DANCE', 'RUN', 'WALK', 'DRIVE', 'FLY',
+    'SWIM', 'JUMP', 'SIT', 'STAND', 'FALL', 'PUSH', 'PULL', 'OPEN', 'CLOSE',
+    'START', 'STOP', 'FINISH', 'BEGIN', 'END', 'TRY', 'USE', 'FIND', 'LOSE', 'WIN',
+    'BUY', 'SELL', 'PAY', 'SAVE', 'SPEND', 'SEND', 'RECEIVE', 'BRING', 'CARRY',
+    'PUT', 'LEAVE', 'STAY', 'MOVE', 'TURN', 'CHANGE', 'GROW', 'BECOME',
+    'LIVE', 'DIE', 'MARRY', 'MEET', 'COOK', 'CLEAN', 'SHOW', 'FOLLOW', 'HOLD', 'KEEP',
+    'LET', 'WEAR', 'BUILD', 'BREAK', 'EXPLAIN', 'DECIDE', 'BELIEVE', 'HOPE', 'WISH',
+    'ARRIVE', 'VISIT', 'STUDY', 'PRACTICE', 'LAUGH', 'CRY', 'SMILE', 'TOUCH', 'ENJOY'
+]);
+
+const ADJECTIVES = new Set([
+    'happy', 'sad', 'angry', 'scared', 'tired', 'sick', 'hungry', 'thirsty', 'excited', 'bored',
+    'nervous', 'proud', 'embarrassed', 'surprised', 'confused', 'worried',
+    'good', 'bad', 'big', 'small', 'little', 'hot', 'cold', 'new', 'old', 'fast', 'slow',
+    'easy', 'hard', 'difficult', 'simple', 'important', 'beautiful', 'ugly', 'nice', 'mean',
+    'right', 'wrong', 'true', 'false', 'same', 'different', 'special', 'normal', 'strange',
+    'quiet', 'loud', 'soft', 'light', 'heavy', 'full', 'empty', 'clean', 'dirty', 'deaf',
+    'red', 'blue', 'green', 'yellow', 'black', 'white', 'orange', 'purple', 'pink', 'brown', 'gray',
+    'many', 'few', 'more', 'most', 'less', 'all', 'favorite', 'best', 'better', 'last', 'next'
+]);
+
+const ADJECTIVE_SUFFIXES = ['ful', 'ous', 'ive', 'able', 'ible', 'less', 'ish', 'al'];
+
+// Tag every unit. Numbers are already tagged NUM by the caller; context from the
+// previous and next word settles common ambiguities ("like", "her", "work", "to").
+export function tagUnits(units: GlossUnit[]): GlossUnit[] {
+    const tagged = units.map(u => ({ ...u }));
+
+    for (let i = 0; i < tagged.length; i++) {
+        const unit = tagged[i];
+        if (unit.tag === 'NUM') continue;
+
+        const prev = i > 0 ? tagged[i - 1] : null;
+        unit.tag = tagWord(unit, prev ? prev.tag : null);
+    }
+
+    // Second pass: words that depend on what follows
+    for (let i = 0; i < tagged.length; i++) {
+        const unit = tagged[i];
+        const next = tagged[i + 1];
+
+        // "to eat" is an infinitive marker, "to school" a preposition
+        if (unit.word === 'to') unit.tag = next && next.tag === 'VERB' ? 'PART' : 'PREP';
+
+        // "her" is possessive before a noun ("her dog"), otherwise an object ("see her")
+        if (unit.word === 'her') {
+            unit.tag = next && (next.tag === 'NOUN' || next.tag === 'ADJ') ? 'DET' : 'PRON';
+        }
+    }
+
+    return tagged;
+}
+
+function tagWord(unit: GlossUnit, prevTag: PartOfSpeech | null): PartOfSpeech {
+    const word = unit.word;
+    const gloss = unit.glosses[0] || word.toUpperCase();
+    const afterDeterminer = prevTag === 'DET' || prevTag === 'ADJ' || prevTag === 'NUM';
+
+    if (NEGATIONS.has(word)) return 'NEG';
+    if (WH_WORDS.has(word)) return 'WH';
+    if (PRONOUNS.has(word)) return 'PRON';
+    if (DETERMINERS.has(word)) return 'DET';
+    if (MODALS.has(word)) return 'MODAL';
+    if (AUXILIARIES.has(word)) return 'AUX';
+    if (CONJUNCTIONS.has(word)) return 'CONJ';
+
+    // "like" is a verb after a subject ("I like"), a preposition otherwise ("like a bird")
+    if (word === 'like' || word === 'likes') {
+        return prevTag === 'PRON' || prevTag === 'NOUN' || prevTag === 'NEG' ||
+            prevTag === 'MODAL' || prevTag === 'AUX' || prevTag === 'ADV' || prevTag === 'PART' ? 'VERB' : 'PREP';
+    }
+
+    if (PREPOSITIONS.has(word)) return 'PREP';
+    if (INTERJECTIONS.has(word)) return 'INTJ';
+    if (ADVERBS.has(word)) return 'ADV';
+    if (ADJECTIVES.has(word)) return 'ADJ';
+
+    // Noun/verb ambiguity ("my work" vs "I work"): a determiner means noun
+    if (VERB_GLOSSES.has(gloss)) return afterDeterminer ? 'NOUN' : 'VERB';
+
+    // Suffix rules for words outside the lists
+    if (word.endsWith('ly')) return 'ADV';
+    if ((word.endsWith('ing') || word.endsWith('ed')) && !afterDeterminer && word.length > 4) return 'VERB';
+    if (ADJECTIVE_SUFFIXES.some(s => word.endsWith(s)) && word.length > 5) return 'ADJ';
+
+    return 'NOUN';
+}
+
+// --- Parser ---
+
+// Subject / verb / object spans of a simple clause (indices into the clause)
+export interface ClauseParse {
+    subject: number[];
+    verb: number[];    // Modals, negation and verb chain ("don't want to eat")
+    object: number[];  // Noun phrase after the verb
+    rest: number[];    // Everything else, in order
+}
+
+const NOUN_PHRASE_TAGS = new Set<PartOfSpeech>(['DET', 'ADJ', 'NUM', 'NOUN']);
+
+// Find subject, verb and object in one clause. Returns null when there is no main verb.
+export function parseClause(clause: GlossUnit[]): ClauseParse | null {
+    const mainVerb = clause.findIndex(u => u.tag === 'VERB');
+    if (mainVerb < 0) return null;
+
+    // Subject: everything before the verb group that isn't an auxiliary/modal/negation/adverb
+    const verbGroupTags = new Set<PartOfSpeech>(['AUX', 'MODAL', 'NEG', 'ADV']);
+    let verbStart = mainVerb;
+    while (verbStart > 0 && verbGroupTags.has(clause[verbStart - 1].tag)) verbStart--;
+
+    const subject: number[] = [];
+    for (let i = 0; i < verbStart; i++) subject.push(i);
+
+    // Verb group: modals, negation, the verb and chained infinitives ("want to eat")
+    const verb: number[] = [];
+    let i = verbStart;
+    while (i < clause.length) {
+        const tag = clause[i].tag;
+        const chained = tag === 'PART' && clause[i + 1] && clause[i + 1].tag === 'VERB';
+        if (i <= mainVerb || tag === 'VERB' || chained || (tag === 'ADV' && clause[i + 1]?.tag === 'VERB')) {
+            verb.push(i);
+            i++;
+            continue;
+        }
+        break;
+    }
+
+    // Object: a noun phrase right after the verb, allowing "cats and dogs".
+    // A determiner or adjective after the head noun starts a new phrase ("books every morning").
+    const object: number[] = [];
+    while (i < clause.length) {
+        const unit = clause[i];
+        const afterHead = object.length > 0 && clause[i - 1].tag === 'NOUN';
+        if (afterHead && unit.tag !== 'NOUN' && unit.tag !== 'CONJ') break;
+
+        const joinsNouns = unit.tag === 'CONJ' && (unit.word === 'and' || unit.word === 'or') &&
+            object.length > 0 && clause[i + 1] && NOUN_PHRASE_TAGS.has(clause[i + 1].tag);
+        if (NOUN_PHRASE_TAGS.has(unit.tag) || unit.tag === 'PRON' && object.length === 0 || joinsNouns) {
+            object.push(i);
+            i++;
+            continue;
+        }
+        break;
+    }
+
+    const used = new Set([...subject, ...verb, ...object]);
+    const rest = clause.map((_, idx) => idx).filter(idx => !used.has(idx));
+    return { subject, verb, object, rest };
+}
+
+// Split a sentence into clauses at conjunctions that start a new verb phrase
+// ("I cook and she cleans"), but not ones that join nouns ("cats and dogs").
+export function splitClauses(units: GlossUnit[]): GlossUnit[][] {
+    const clauses: GlossUnit[][] = [];
+    let current: GlossUnit[] = [];
+
+    for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+        const startsClause = unit.tag === 'CONJ' && units.slice(i + 1).some(u => u.tag === 'VERB') &&
+            current.some(u => u.tag === 'VERB');
+        if (startsClause) {
+            clauses.push(current);
+            current = [unit];
+            continue;
+        }
+        current.push(unit);
+    }
+    if (current.length > 0) clauses.push(current);
+    return clauses;
+}
+
+// Topic-comment order for one clause: OBJECT SUBJECT VERB REST.
+// Only noun objects are fronted (pronoun objects stay after the verb), and only
+// statements with a subject; questions and imperatives keep their order.
+export function topicalizeClause(clause: GlossUnit[]): GlossUnit[] {
+    if (clause.some(u => u.tag === 'WH')) return clause;
+
+    const parse = parseClause(clause);
+    if (!parse) return clause;
+
+    const hasSubject = parse.subject.some(i => clause[i].tag === 'PRON' || clause[i].tag === 'NOUN');
+    const hasNounObject = parse.object.some(i => clause[i].tag === 'NOUN');
+    if (!hasSubject || !hasNounObject) return clause;
+
+    // Leading conjunction stays first ("and COOKIE I LIKE")
+    const lead = parse.subject.filter(i => clause[i].tag === 'CONJ');
+    const subject = parse.subject.filter(i => clause[i].tag !== 'CONJ');
+
+    const order = [...lead, ...nounPhraseOrder(clause, parse.object), ...subject, ...parse.verb, ...parse.rest];
+    return order.map(i => clause[i]);
+}
+
+// Adjectives follow the noun in ASL ("red apples" -> APPLE RED)
+function nounPhraseOrder(clause: GlossUnit[], phrase: number[]): number[] {
+    const adjectives = phrase.filter(i => clause[i].tag === 'ADJ');
+    const others = phrase.filter(i => clause[i].tag !== 'ADJ');
+    return [...others, ...adjectives];
+}
+
+// --- Questions ---
+
+export type QuestionType = 'wh' | 'yes-no';
+
+// Forms of "be" invert without a main verb ("is he deaf", "are you from spain")
+const BE_FORMS = new Set(['am', 'is', 'are', 'was', 'were']);
+
+// Find the question type from units in sentence order (time words included). Speech
+// recognition drops the "?", so word order counts too: a WH-word leading the sentence or
+// after its time words ("tomorrow where are you going"), or an auxiliary leading the
+// sentence with a subject and a verb after it ("can you help me", but not "have a nice day").
+// Greetings before either don't count ("hello how are you").
+export function detectQuestion(units: GlossUnit[], hasQuestionMark: boolean): QuestionType | null {
+    while (units.length > 0 && units[0].tag === 'INTJ') units = units.slice(1);
+    if (units.length === 0) return null;
+
+    const lead = units.find(u => u.tag !== 'ADV');
+    if (lead && lead.tag === 'WH') return 'wh';
+
+    if (isInverted(units)) return 'yes-no';
+
+    if (!hasQuestionMark) return null;
+    return units.some(u => u.tag === 'WH') ? 'wh' : 'yes-no';
+}
+
+// Auxiliary, subject, verb: "do you like coffee", "does your dog bite", "can't you see"
+function isInverted(units: GlossUnit[]): boolean {
+    const first = units[0];
+    // Negated auxiliaries invert too ("don't you"), but a leading "no" or "not" doesn't
+    const negatedAux = first.tag === 'NEG' && first.word !== 'no' && first.word !== 'not' && first.word !== 'never';
+    if (first.tag !== 'AUX' && first.tag !== 'MODAL' && !negatedAux) return false;
+
+    // The subject: a pronoun, or a noun after its determiners and adjectives
+    let i = 1;
+    while (i < units.length && (units[i].tag === 'DET' || units[i].tag === 'ADJ' || units[i].tag === 'NUM')) i++;
+    const subject = units[i];
+    if (!subject || (subject.tag === 'PRON' && i > 1)) return false;
+    if (subject.tag !== 'PRON' && subject.tag !== 'NOUN') return false;
+
+    // The predicate, past any negation or adverbs ("do you really like", "is it not")
+    i++;
+    while (i < units.length && (units[i].tag === 'NEG' || units[i].tag === 'ADV')) i++;
+    // "have" and "do" are main verbs after the subject ("can I have water", "do you have a car")
+    const predicate = units[i];
+    if (!predicate) return false;
+    return predicate.tag === 'VERB' || predicate.tag === 'AUX' || BE_FORMS.has(first.word);
+}
+
+// ASL puts WH-signs at the end: "where do you live" -> YOU LIVE WHERE.
+// "how many" / "how much" move together.
+export function moveWhToEnd(units: GlossUnit[]): GlossUnit[] {
+    const kept: GlossUnit[] = [];
+    const moved: GlossUnit[] = [];
+
+    for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+        if (unit.tag !== 'WH') {
+            kept.push(unit);
+            continue;
+        }
+        moved.push(unit);
+        const next = units[i + 1];
+        if (unit.word === 'how' && next && (next.word === 'many' || next.word === 'much')) {
+            moved.push(next);
+            i++;
+        }
+    }
+
+    return [...kept, ...moved];
+}
+
+// --- Negation ---
+
+// Negated modals keep their sign under the headshake ("can't swim" -> [CAN SWIM]neg)
+const NEGATED_MODALS: { [key: string]: string } = {
+    "can't": 'CAN', 'cant': 'CAN', 'cannot': 'CAN', "won't": 'WILL', 'wont': 'WILL'
+};
+
+// Mark what a negation scopes over: everything signed after it in the clause. Run after
+// topicalization so a fronted topic stays outside ("COFFEE I [LIKE]neg").
+// The headshake carries the negation, so the NOT sign is only kept when nothing signed
+// follows it for the headshake to cover ("I'm not"). With finalSign (BSL) the NOT sign is
+// kept and moves to the end of the clause, still under the headshake ("COFFEE I [LIKE NOT]neg").
+export function scopeNegation(clause: GlossUnit[], finalSign: boolean = false): GlossUnit[] {
+    const result = clause.map(u => ({ ...u }));
+    let dropped: GlossUnit | null = null; // First NOT sign the headshake replaced
+
+    for (let i = 0; i < result.length; i++) {
+        const unit = result[i];
+        if (unit.tag !== 'NEG' || unit.glosses[0] !== 'NOT') continue;
+
+        const scope = result.slice(i + 1).filter(u => u.glosses.length > 0);
+        scope.forEach(u => u.negated = true);
+
+        const modal = NEGATED_MODALS[unit.word];
+        if (modal) {
+            unit.glosses = [modal];
+            unit.negated = true;
+        } else if (scope.length > 0) {
+            unit.glosses = [];
+            if (!dropped) dropped = unit;
+        } else {
+            unit.negated = true;
+        }
+    }
+
+    if (finalSign && dropped) result.push({ ...dropped, glosses: ['NOT'], negated: true });
+    return result;
+}
@@ -0,0 +1,63 @@
+// Animation Clock
+// One clock drives the sign queue and both hands, so timing doesn't depend on the
+// display's frame rate. Time only advances by clamped frame deltas: a tab coming back
+// from the background resumes where it was instead of playing catch-up.
+
+export interface AnimationClock {
+    readonly now: number;    // Animation time in seconds
+    readonly delta: number;  // Seconds since the previous tick
+    // Advance to the next frame (called once per frame by RobotAvatar.animate)
+    tick(): void;
+}
+
+// Longest step a single frame may take (seconds)
+const MAX_DELTA = 0.1;
+
+// Wall-clock time from performance.now()
+export class RealtimeClock implements AnimationClock {
+    now = 0;
+    delta = 0;
+    private last: number | null = null;
+
+    tick() {
+        const wall = performance.now() / 1000;
+        this.delta = this.last === null ? 0 : Math.min(Math.max(wall - this.last, 0), MAX_DELTA);
+        this.last = wall;
+        this.now += this.delta;
+    }
+}
+
+// Steps a fixed amount per tick, for deterministic tests and recordings
+export class ManualClock implements AnimationClock {
+    now = 0;
+    delta = 0;
+    step: number;
+
+    constructor(step: number = 1 / 60) {
+        this.step = step;
+    }
+
+    tick() {
+        this.advance(this.step);
+    }
+
+    // Jump forward by an arbitrary amount (not clamped)
+    advance(seconds: number) {
+        this.delta = seconds;
+        this.now += seconds;
+    }
+}
+
+// Critically damped spring toward target: no overshoot, same result at any frame rate.
+// smoothTime is roughly how long it takes to get most of the way there.
+export function smoothDamp(current: number, target: number, velocity: number, smoothTime: number, dt: number) {
+    const omega = 2 / smoothTime;
+    const x = omega * dt;
+    const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+    const change = current - target;
+    const temp = (velocity + omega * change) * dt;
+    return {
+        value: target + (change + temp) * decay,
+        velocity: (velocity - omega * temp) * decay
+    };
+}
@@ -0,0 +1,161 @@
+// BSL Finger configurations
+// The British two-handed manual alphabet (right-handed form; the avatar mirrors it for a
+// left-handed signer). The dominant hand forms or points at the letter on the base hand:
+// - vowels: the index touches a fingertip of the spread base hand (A thumb .. U little finger)
+// - L, M, N, R, V, H, Z: fingers laid on the upturned base palm
+// - D, K, P, Q: shapes made against the base index finger
+// - B, F, G, S, W, X: both hands alike, meeting in the middle
+// C is one-handed. Placements come from the hand's proportions (see RobotHand.buildHand)
+// so fingers meet where they should, give or take the joints' thickness.
+
+import { HANDSHAPES } from './Handshapes';
+import type { FingerName, Handshape } from './Handshapes';
+import type { Position } from './SigningSpace';
+import type { FingerspellingAlphabet, LetterPose } from './ASLAlphabet';
+
+// Fingertips of an open, upright hand relative to its wrist, palm toward the viewer
+const FINGERTIPS: { [key in FingerName]: { x: number, y: number } } = {
+    thumb: { x: 2.7, y: 2.7 },
+    index: { x: 1.0, y: 5.1 },
+    middle: { x: 0.3, y: 5.4 },
+    ring: { x: -0.4, y: 5.1 },
+    pinky: { x: -1.1, y: 4.7 }
+};
+
+// Palm centre's distance from the wrist along the hand, and the height of the palm face
+// (plus a finger's thickness) above the palm's centre line
+const PALM_CENTRE = 1.5;
+const PALM_FACE = 0.45;
+
+// The dominant hand sits this far in front of the base hand where they touch
+const CONTACT_DEPTH = 0.4;
+
+// Base hand held up, palm toward the signer (its thumb toward the middle)
+const PALM_IN: [number, number, number] = [0, Math.PI, 0];
+const UPRIGHT_BASE: Position = { x: 1.5, y: -2, z: 0 };
+
+// Base hand palm up, fingers pointing toward the viewer
+const PALM_UP: [number, number, number] = [Math.PI / 2, Math.PI, 0];
+const PALM_UP_BASE: Position = { x: 2.0, y: -2.5, z: -1 };
+
+// Dominant hand laid across the base palm: fingers toward the middle, palm down
+const LAID_ACROSS: [number, number, number] = [Math.PI / 2, 0, Math.PI / 2];
+
+// A point on the upright base hand, wrist-relative (x, y), in the dominant hand's space
+function onUprightBase(x: number, y: number): Position {
+    return { x: -UPRIGHT_BASE.x + x, y: UPRIGHT_BASE.y + y, z: UPRIGHT_BASE.z };
+}
+
+// Dominant pose with its index fingertip at tip, the finger leaning angle radians toward the middle
+function indexAt(shape: Handshape, tip: Position, angle: number): LetterPose {
+    const f = FINGERTIPS.index;
+    const x = f.x * Math.cos(angle) - f.y * Math.sin(angle);
+    const y = f.x * Math.sin(angle) + f.y * Math.cos(angle);
+    return { ...shape, at: { x: tip.x - x, y: tip.y - y, z: tip.z + CONTACT_DEPTH }, wrist: [0, 0, angle] };
+}
+
+// Vowels: the index touches one of the spread base hand's fingertips
+function vowel(finger: FingerName, angle: number): LetterPose {
+    const tip = FINGERTIPS[finger];
+    return {
+        ...indexAt(HANDSHAPES['1'], onUprightBase(tip.x, tip.y), angle),
+        base: { ...HANDSHAPES['5'], at: UPRIGHT_BASE, wrist: PALM_IN }
+    };
+}
+
+// Fingers laid across the upturned base palm, the index tip at its centre
+function onPalm(shape: Handshape, motion?: [number, number, number][]): LetterPose {
+    // Palm up with the fingers toward the viewer: the palm centre is in front of the wrist
+    const centre = { x: -PALM_UP_BASE.x, y: PALM_UP_BASE.y + PALM_FACE, z: PALM_UP_BASE.z + PALM_CENTRE };
+    const f = FINGERTIPS.index;
+    return {
+        ...shape,
+        // Laid across, the index tip is the finger's length toward the middle from the wrist
+        at: { x: centre.x + f.y, y: centre.y + PALM_FACE, z: centre.z - f.x },
+        wrist: LAID_ACROSS,
+        ...(motion ? { motion } : {}),
+        base: { ...HANDSHAPES['B'], at: PALM_UP_BASE, wrist: PALM_UP }
+    };
+}
+
+// Shapes made against the upright base index finger, height up from the base wrist
+function onIndex(shape: Handshape, height: number, angle: number): LetterPose {
+    return {
+        ...indexAt(shape, onUprightBase(FINGERTIPS.index.x, height), angle),
+        base: { ...HANDSHAPES['1'], at: UPRIGHT_BASE, wrist: PALM_IN }
+    };
+}
+
+// Both hands alike, mirrored across the middle (the dominant one in front)
+function pair(shape: Handshape, at: Position, wrist: [number, number, number]): LetterPose {
+    return {
+        ...shape,
+        at: { ...at, z: at.z + CONTACT_DEPTH },
+        wrist,
+        base: { ...shape, at, wrist }
+    };
+}
+
+// Little finger hooked, the rest in a fist (S: the little fingers link)
+const HOOKED_PINKY: Handshape = {
+    ...HANDSHAPES['I'],
+    pinky: 1.0,
+    joints: { pinky: [0.2, 1.4, 1.3] }
+};
+
+export const BSL_ALPHABET: FingerspellingAlphabet = {
+    'a': vowel('thumb', 0.4),
+    'b': pair(HANDSHAPES['O'], { x: 1.2, y: -2.2, z: 0 }, [0, 0, 0.5]),  // Two rings side by side
+    'c': HANDSHAPES['C'],
+    'd': onIndex(HANDSHAPES['C'], 3.5, 0.9),  // Curved hand against the index: the bowl of a D
+    'e': vowel('index', 0.9),
+    'f': pair(HANDSHAPES['U'], { x: 2.2, y: -2.5, z: 0 }, [0, 0, 0.9]),  // Two fingers across two fingers
+    'g': {                                    // Fist on fist
+        ...HANDSHAPES['S'],
+        at: { x: 0.6, y: -0.6, z: CONTACT_DEPTH },
+        wrist: [0, 0, 0],
+        base: { ...HANDSHAPES['S'], at: { x: 0.6, y: -3.6, z: 0 }, wrist: [0, 0, 0] }
+    },
+    'h': onPalm(HANDSHAPES['B'], [[Math.PI / 2, 0, Math.PI / 2], [Math.PI / 2, 0, Math.PI / 2 - 0.4]]),  // Flat hand strokes the palm
+    'i': vowel('middle', 0.9),
+    'j': {                                    // I, then the index runs down the base palm
+        ...vowel('middle', 0.9),
+        motion: [[0, 0, 0.9], [0, 0, 1.3], [0, 0, 1.6]]
+    },
+    'k': onIndex(HANDSHAPES['X'], 4.5, 1.6),  // Crooked index over the index
+    'l': onPalm(HANDSHAPES['1']),
+    'm': onPalm(HANDSHAPES['W']),             // Three fingers
+    'n': onPalm(HANDSHAPES['U']),             // Two fingers
+    'o': vowel('ring', 0.9),
+    'p': onIndex(HANDSHAPES['O'], 3.0, 0.9),  // Ring of index and thumb at the index
+    'q': onIndex(HANDSHAPES['C'], 5.0, 2.2),  // Curved hand hooked over the index tip
+    'r': onPalm(HANDSHAPES['X']),             // Crooked index
+    's': pair(HOOKED_PINKY, { x: 2.8, y: -2.5, z: 0 }, [0, 0, 1.3]),
+    't': {                                    // Index tip against the edge of the flat base hand
+        ...indexAt(HANDSHAPES['1'], onUprightBase(1.45, PALM_CENTRE), Math.PI / 2),
+        base: { ...HANDSHAPES['B'], at: UPRIGHT_BASE, wrist: PALM_IN }
+    },
+    'u': vowel('pinky', 0.9),
+    'v': onPalm(HANDSHAPES['V']),
+    'w': pair(HANDSHAPES['5'], { x: 2.6, y: -3, z: 0 }, [0, 0, 1.0]),  // Fingers interlaced
+    'x': pair(HANDSHAPES['1'], { x: 2.6, y: -2.8, z: 0 }, [0, 0, 0.9]),  // Index fingers crossed
+    'y': {                                    // Index in the crook of the base thumb
+        ...indexAt(HANDSHAPES['1'], onUprightBase(1.4, 2.6), 0.6),
+        base: { ...HANDSHAPES['L'], at: UPRIGHT_BASE, wrist: PALM_IN }
+    },
+    'z': onPalm(HANDSHAPES['B'], [  // Fingertips tap the palm
+        [Math.PI / 2, 0, Math.PI / 2], [Math.PI / 2 + 0.25, 0, Math.PI / 2], [Math.PI / 2, 0, Math.PI / 2]
+    ]),
+
+    // Numbers: one hand up to five; six to nine add the base hand's five
+    '0': HANDSHAPES['O'],
+    '1': HANDSHAPES['1'],
+    '2': HANDSHAPES['V'],
+    '3': HANDSHAPES['3'],
+    '4': HANDSHAPES['4'],
+    '5': HANDSHAPES['5'],
+    '6': { ...HANDSHAPES['1'], base: HANDSHAPES['5'] },
+    '7': { ...HANDSHAPES['V'], base: HANDSHAPES['5'] },
+    '8': { ...HANDSHAPES['3'], base: HANDSHAPES['5'] },
+    '9': { ...HANDSHAPES['4'], base: HANDSHAPES['5'] },
+};
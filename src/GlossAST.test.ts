@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { GlossSentence, GlossToken } from './GlossAST';
+import { englishToASLGloss } from './ASLGloss';
+
+describe('GlossToken', () => {
+    it('writes each token type in gloss notation', () => {
+        expect(new GlossToken('lexical', 'LIKE', null).toString()).toBe('LIKE');
+        expect(new GlossToken('fingerspell', 'JOHN', null).toString()).toBe('fs-JOHN');
+        expect(new GlossToken('number', 'NUM_25', null).toString()).toBe('25');
+        expect(new GlossToken('number', 'ORD_1', null).toString()).toBe('1ST');
+        expect(new GlossToken('classifier', 'CL:3', null).toString()).toBe('CL:3');
+        expect(new GlossToken('pause', 'PAUSE', null).toString()).toBe('');
+        expect(new GlossToken('boundary', 'BOUNDARY', null).toString()).toBe('');
+    });
+
+    it('spells only fingerspelled tokens', () => {
+        expect(new GlossToken('fingerspell', 'ANA', null).letters).toEqual(['A', 'N', 'A']);
+        expect(new GlossToken('lexical', 'ANA', null).letters).toEqual([]);
+    });
+});
+
+describe('GlossSentence', () => {
+    it('types what the converter produces and keeps where it came from', () => {
+        const sentence = englishToASLGloss('John Smith has 25 dogs');
+        expect(sentence.tokens.map(t => [t.type, t.toString()])).toEqual([
+            ['fingerspell', 'fs-JOHN'],
+            ['pause', ''],
+            ['fingerspell', 'fs-SMITH'],
+            ['number', '25'],
+            ['lexical', 'DOG']
+        ]);
+        const dog = sentence.tokens.find(t => t.gloss === 'DOG')!;
+        expect(sentence.sourceText(dog)).toBe('dogs');
+    });
+
+    it('brackets non-manual markers, negation inside the question', () => {
+        const t = (gloss: string, negated: boolean) =>
+            new GlossToken('lexical', gloss, null, { negated, question: 'yes-no' });
+        const sentence = new GlossSentence('', [t('PIZZA', false), t('NOT', true), t('LIKE', true)], 'yes-no');
+        expect(sentence.toString()).toBe('[PIZZA [NOT LIKE]neg]y/n');
+    });
+
+    it('marks WH-questions and leaves pauses out', () => {
+        expect(englishToASLGloss('where do you live').toString()).toBe('[YOU LIVE WHERE]whq');
+        expect(englishToASLGloss('John Smith').toString()).toBe('fs-JOHN fs-SMITH');
+    });
+
+    it('separates sentences with a slash', () => {
+        const tokens = [new GlossToken('lexical', 'HELLO', null), new GlossToken('boundary', 'BOUNDARY', null),
+            new GlossToken('lexical', 'GOODBYE', null)];
+        expect(new GlossSentence('', tokens).toString()).toBe('HELLO / GOODBYE');
+    });
+});
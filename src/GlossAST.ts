@@ -0,0 +1,117 @@
+// Gloss AST
+// Typed output of englishToASLGloss: what kind of sign each token is, where it came
+// from in the English text, and the non-manual markers layered over it.
+
+import type { QuestionType } from './ASLSyntax';
+import { numberTokenDigits, ordinalLabel, ORDINAL_PREFIX } from './ASLNumbers';
+
+// lexical:     a sign from the lexicon ("LIKE")
+// fingerspell: a word spelled letter by letter ("JOHN")
+// number:      a number sign (NUM_25, ORD_1)
+// classifier:  a classifier predicate from the lexicon ("CL:3")
+// pause:       a short rest between two fingerspelled words
+// boundary:    the end of one sentence and start of the next ("My name is John. I like cookies")
+export type GlossTokenType = 'lexical' | 'fingerspell' | 'number' | 'classifier' | 'pause' | 'boundary';
+
+// Character offsets [start, end) in the English input
+export interface SourceSpan {
+    start: number;
+    end: number;
+}
+
+// Non-manual markers carried alongside the manual sign
+export interface GlossModifiers {
+    negated: boolean;
+    question: QuestionType | null;
+}
+
+export class GlossToken {
+    type: GlossTokenType;
+    gloss: string;              // Sign key: "LIKE", the spelled letters "JOHN", or "NUM_25"
+    span: SourceSpan | null;    // null for tokens the converter inserts (pauses, boundaries)
+    modifiers: GlossModifiers;
+
+    constructor(type: GlossTokenType, gloss: string, span: SourceSpan | null, modifiers: Partial<GlossModifiers> = {}) {
+        this.type = type;
+        this.gloss = gloss;
+        this.span = span;
+        this.modifiers = { negated: false, question: null, ...modifiers };
+    }
+
+    // Letters of a fingerspelled token
+    get letters(): string[] {
+        return this.type === 'fingerspell' ? this.gloss.split('') : [];
+    }
+
+    // Standard gloss notation: LIKE, fs-JOHN, 25, 1ST
+    toString(): string {
+        switch (this.type) {
+            case 'fingerspell':
+                return `fs-${this.gloss}`;
+            case 'number': {
+                const digits = numberTokenDigits(this.gloss);
+                return this.gloss.startsWith(ORDINAL_PREFIX) ? ordinalLabel(digits).toUpperCase() : digits;
+            }
+            case 'pause':
+            case 'boundary':
+                return '';
+            default:
+                return this.gloss;
+        }
+    }
+}
+
+// Non-manual markers in the order they nest: a question spans the whole sentence,
+// negation only its predicate ("[PIZZA [NOT LIKE]neg]y/n")
+const NON_MANUAL_LABELS: ((m: GlossModifiers) => string | null)[] = [
+    m => m.question === 'wh' ? 'whq' : m.question === 'yes-no' ? 'y/n' : null,
+    m => m.negated ? 'neg' : null
+];
+
+function renderTokens(tokens: GlossToken[], level: number): string {
+    if (level >= NON_MANUAL_LABELS.length) return tokens.map(t => t.toString()).join(' ');
+
+    // Group consecutive tokens that share this level's marker
+    const groups: { label: string | null, tokens: GlossToken[] }[] = [];
+    for (const token of tokens) {
+        const label = NON_MANUAL_LABELS[level](token.modifiers);
+        const last = groups[groups.length - 1];
+        if (last && last.label === label) last.tokens.push(token);
+        else groups.push({ label, tokens: [token] });
+    }
+
+    return groups.map(g => {
+        const inner = renderTokens(g.tokens, level + 1);
+        return g.label ? `[${inner}]${g.label}` : inner;
+    }).join(' ');
+}
+
+// The input's text, glossed. It may hold several sentences, separated by boundary tokens;
+// each is reordered and marked on its own.
+export class GlossSentence {
+    source: string;
+    tokens: GlossToken[];
+    question: QuestionType | null; // The last question asked, if any
+
+    constructor(source: string, tokens: GlossToken[], question: QuestionType | null = null) {
+        this.source = source;
+        this.tokens = tokens;
+        this.question = question;
+    }
+
+    // Source text a token came from ("cookies" for COOKIE)
+    sourceText(token: GlossToken): string {
+        return token.span ? this.source.slice(token.span.start, token.span.end) : '';
+    }
+
+    // Standard gloss notation with non-manual markers bracketed: "[YOU LIVE WHERE]whq".
+    // Sentences are separated by " / ": "I LIKE fs-TEA / [YOU LIVE WHERE]whq"
+    toString(): string {
+        const sentences: GlossToken[][] = [[]];
+        for (const token of this.tokens) {
+            if (token.type === 'boundary') sentences.push([]);
+            else if (token.type !== 'pause') sentences[sentences.length - 1].push(token);
+        }
+        return sentences.filter(s => s.length > 0).map(s => renderTokens(s, 0)).join(' / ');
+    }
+}
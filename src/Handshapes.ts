@@ -0,0 +1,155 @@
+// Handshapes
+// The named handshape inventory. Fingerspelling (ASLAlphabet.ts) and lexical signs
+// ("handshape": "claw-5" in src/lexicon/*.json) both resolve through it, so a shape is
+// defined once and looks the same wherever it is used.
+// Curls: 0.0 = Open/Extended, 1.5 = Curled/Closed. The curl is the finger's overall bend,
+// used by the recognizer and spread evenly over the three joints. Shapes that need more
+// say so with per-joint flexion, finger spread and thumb opposition.
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export const FINGER_NAMES: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Flexion of a finger's base, middle and tip joints (radians)
+export type JointFlex = [number, number, number];
+
+export interface Handshape {
+    thumb: number;
+    index: number;
+    middle: number;
+    ring: number;
+    pinky: number;
+    joints?: Partial<{ [key in FingerName]: JointFlex }>; // Overrides the curl joint by joint
+    spread?: Partial<{ [key in FingerName]: number }>;    // Radians away from the middle finger (the middle finger: toward the index)
+    opposition?: number;                                  // Thumb: 0 alongside the palm .. 1 across the front of it
+}
+
+export const HANDSHAPES: { [name: string]: Handshape } = {
+    'A': { thumb: 0.1, index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5, spread: { thumb: -0.1 } }, // Thumb against the side of the fist
+    'B': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0, joints: { thumb: [0.3, 0.9, 0.6] }, opposition: 1 }, // Palm open, thumb folded across it
+    'C': { // C-shape: fingers bent at every joint, thumb facing them
+        thumb: 0.5, index: 0.5, middle: 0.5, ring: 0.5, pinky: 0.5,
+        joints: { index: [0.5, 0.6, 0.4], middle: [0.5, 0.6, 0.4], ring: [0.5, 0.6, 0.4], pinky: [0.5, 0.6, 0.4] },
+        opposition: 0.5
+    },
+    'D': { thumb: 1.5, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5, joints: { thumb: [0.4, 0.6, 0.4] }, opposition: 0.8 }, // Index up, thumb meets the curled fingers
+    'E': { // Fingertips bent down onto the thumb folded across the palm
+        thumb: 1.5, index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5,
+        joints: { thumb: [0.3, 0.9, 0.6], index: [0.4, 1.5, 1.3], middle: [0.4, 1.5, 1.3], ring: [0.4, 1.5, 1.3], pinky: [0.4, 1.5, 1.3] },
+        opposition: 1
+    },
+    'F': { // OK sign: index and thumb tips touch, the rest open and spread
+        thumb: 1.5, index: 1.2, middle: 0.0, ring: 0.0, pinky: 0.0,
+        joints: { thumb: [0.3, 0.5, 0.4], index: [0.9, 0.9, 0.6] },
+        spread: { ring: 0.15, pinky: 0.3 },
+        opposition: 0.7
+    },
+    'G': { thumb: 0.5, index: 0.2, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Pointing sideways
+    'H': { thumb: 1.5, index: 0.2, middle: 0.2, ring: 1.5, pinky: 1.5 }, // Index+Middle sideways
+    'I': { thumb: 1.4, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0, opposition: 1 }, // Pinky up, thumb across the fingers
+    'K': { // Index up, middle angled forward, thumb between them
+        thumb: 0.5, index: 0.0, middle: 0.5, ring: 1.5, pinky: 1.5,
+        joints: { middle: [0.9, 0.1, 0] }, spread: { index: 0.15 }, opposition: 0.5
+    },
+    'L': { thumb: 0.0, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5, spread: { thumb: 0.9 } }, // L shape, thumb straight out
+    'M': { // Index, middle and ring draped over the thumb
+        thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.2, pinky: 1.5,
+        joints: { thumb: [0.2, 0.4, 0.3], index: [1.3, 1.0, 0.6], middle: [1.3, 1.0, 0.6], ring: [1.3, 1.0, 0.6] },
+        opposition: 1
+    },
+    'N': { // Index and middle draped over the thumb
+        thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.5, pinky: 1.5,
+        joints: { thumb: [0.2, 0.4, 0.3], index: [1.3, 1.0, 0.6], middle: [1.3, 1.0, 0.6] },
+        opposition: 0.8
+    },
+    'O': { // O shape: fingertips meet the thumb tip
+        thumb: 1.2, index: 1.2, middle: 1.2, ring: 1.2, pinky: 1.2,
+        joints: { thumb: [0.3, 0.5, 0.4], index: [0.9, 0.9, 0.7], middle: [0.9, 0.9, 0.7], ring: [0.9, 0.9, 0.7], pinky: [0.9, 0.9, 0.7] },
+        opposition: 0.9
+    },
+    'P': { thumb: 0.5, index: 0.5, middle: 0.0, ring: 1.5, pinky: 1.5, joints: { middle: [0.9, 0.1, 0] }, opposition: 0.5 }, // Downward K
+    'Q': { thumb: 0.5, index: 0.5, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Downward G
+    'R': { thumb: 1.5, index: 0.1, middle: 0.1, ring: 1.5, pinky: 1.5, spread: { index: -0.2, middle: 0.2 }, opposition: 0.8 }, // Index and middle crossed
+    'S': { thumb: 1.2, index: 1.4, middle: 1.4, ring: 1.4, pinky: 1.4, joints: { thumb: [0.2, 0.4, 0.3] }, opposition: 1 }, // Fist, thumb across the fingers
+    'T': { // Thumb tucked up between index and middle
+        thumb: 0.5, index: 1.2, middle: 1.5, ring: 1.5, pinky: 1.5,
+        joints: { thumb: [0.1, 0.3, 0.2], index: [1.3, 1.2, 0.8] },
+        opposition: 0.6
+    },
+    'U': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5, opposition: 0.8 }, // U shape: index and middle together
+    'V': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5, spread: { index: 0.25, middle: -0.25 }, opposition: 0.8 }, // V shape: index and middle apart
+    'W': { thumb: 1.2, index: 0.0, middle: 0.0, ring: 0.0, pinky: 1.5, spread: { index: 0.25, ring: 0.25 }, opposition: 0.8 }, // W shape
+    'X': { thumb: 1.2, index: 0.8, middle: 1.5, ring: 1.5, pinky: 1.5, joints: { index: [0.2, 1.4, 1.1] }, opposition: 0.6 }, // Hooked index
+    'Y': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0, spread: { thumb: 0.6, pinky: 0.4 } }, // Hang loose
+
+    // Numbers (0 is O, 2 is V)
+    '1': { thumb: 1.5, index: 0.0, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Index up
+    '3': { thumb: 0.0, index: 0.0, middle: 0.0, ring: 1.5, pinky: 1.5, spread: { thumb: 0.4, index: 0.2, middle: -0.2 } }, // Thumb + index + middle
+    '4': { thumb: 1.5, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0, spread: { index: 0.2, ring: 0.15, pinky: 0.3 }, opposition: 1 }, // Four fingers up and apart, thumb tucked
+    '5': { thumb: 0.0, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0, spread: { thumb: 0.5, index: 0.2, ring: 0.15, pinky: 0.3 } }, // All five open and spread
+    '6': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 1.5, pinky: 0.0 }, // Thumb + pinky (like Y but different orientation)
+    '7': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 0.0, pinky: 1.5 }, // Thumb + ring
+    '8': { thumb: 0.0, index: 1.5, middle: 0.0, ring: 1.5, pinky: 1.5 }, // Thumb + middle
+    '9': { thumb: 0.0, index: 0.8, middle: 1.5, ring: 1.5, pinky: 1.5 }, // Thumb + bent index
+
+    // Variants used by lexical signs
+    'open-A': { thumb: 0.0, index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5, spread: { thumb: 0.3 } }, // Thumb up from the fist
+    'open-B': { thumb: 0.0, index: 0.0, middle: 0.0, ring: 0.0, pinky: 0.0 }, // Flat hand, fingers together, thumb alongside
+    'bent-B': { // Flat fingers bent at the knuckles
+        thumb: 1.5, index: 0.4, middle: 0.4, ring: 0.4, pinky: 0.4,
+        joints: { thumb: [0.3, 0.9, 0.6], index: [1.2, 0, 0], middle: [1.2, 0, 0], ring: [1.2, 0, 0], pinky: [1.2, 0, 0] },
+        opposition: 1
+    },
+    'flat-O': { // Straight fingers bent at the knuckles onto the thumb
+        thumb: 1.0, index: 1.0, middle: 1.0, ring: 1.0, pinky: 1.0,
+        joints: { thumb: [0.3, 0.3, 0.2], index: [1.2, 0.3, 0.1], middle: [1.2, 0.3, 0.1], ring: [1.2, 0.3, 0.1], pinky: [1.2, 0.3, 0.1] },
+        opposition: 0.8
+    },
+    'claw-5': { // 5 with every finger bent at the middle and tip joints
+        thumb: 0.8, index: 0.8, middle: 0.8, ring: 0.8, pinky: 0.8,
+        joints: { thumb: [0.2, 0.7, 0.6], index: [0.3, 1.1, 0.9], middle: [0.3, 1.1, 0.9], ring: [0.3, 1.1, 0.9], pinky: [0.3, 1.1, 0.9] },
+        spread: { thumb: 0.5, index: 0.2, ring: 0.15, pinky: 0.3 }
+    },
+    'bent-V': { // V with both fingers hooked
+        thumb: 1.5, index: 0.8, middle: 0.8, ring: 1.5, pinky: 1.5,
+        joints: { index: [0.2, 1.3, 1.0], middle: [0.2, 1.3, 1.0] },
+        spread: { index: 0.25, middle: -0.25 },
+        opposition: 0.8
+    }
+};
+
+export const HANDSHAPE_NAMES = Object.keys(HANDSHAPES);
+
+export function isHandshapeName(name: unknown): name is string {
+    return typeof name === 'string' && Object.prototype.hasOwnProperty.call(HANDSHAPES, name);
+}
+
+function lerp(a: number, b: number, t: number) {
+    return a + (b - a) * t;
+}
+
+// Every finger's overall curl
+export function handshapeCurls(shape: Handshape): { [key in FingerName]: number } {
+    return { thumb: shape.thumb, index: shape.index, middle: shape.middle, ring: shape.ring, pinky: shape.pinky };
+}
+
+// A finger's joints, from the shape's per-joint flexion or its curl
+export function jointsOf(shape: Handshape, finger: FingerName): JointFlex {
+    const joints = shape.joints && shape.joints[finger];
+    return joints ? joints : [shape[finger], shape[finger], shape[finger]];
+}
+
+// Part way from one shape to another, every joint, spread and the thumb's opposition
+export function blendHandshapes(a: Handshape, b: Handshape, t: number): Handshape {
+    const shape: Handshape = {
+        thumb: 0, index: 0, middle: 0, ring: 0, pinky: 0, joints: {}, spread: {},
+        opposition: lerp(a.opposition || 0, b.opposition || 0, t)
+    };
+    for (const f of FINGER_NAMES) {
+        const from = jointsOf(a, f);
+        const to = jointsOf(b, f);
+        shape[f] = lerp(a[f], b[f], t);
+        shape.joints![f] = [lerp(from[0], to[0], t), lerp(from[1], to[1], t), lerp(from[2], to[2], t)];
+        shape.spread![f] = lerp((a.spread && a.spread[f]) || 0, (b.spread && b.spread[f]) || 0, t);
+    }
+    return shape;
+}
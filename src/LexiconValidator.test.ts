@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { validateLexicon } from './LexiconValidator';
+import { LEXICON_SOURCES, BSL_LEXICON_SOURCES } from './SignLexicon';
+
+const POINT = { handshape: '1', wrist: { x: 0.3, y: 0, z: 0 } };
+
+function handsWarnings(signs: unknown[]): string[] {
+    const report = validateLexicon([{ name: 'test', signs }], null);
+    return report.warnings.filter(w => w.kind === 'hands').map(w => w.gloss);
+}
+
+describe('validateLexicon', () => {
+    it('reports a gloss defined twice as an error', () => {
+        const report = validateLexicon([
+            { name: 'pronouns', signs: [{ gloss: 'I', hands: 'one', ...POINT }] },
+            { name: 'extra', signs: [{ gloss: 'i', hands: 'one', ...POINT }] }
+        ], null);
+        expect(report.errors.map(e => [e.kind, e.gloss])).toEqual([['duplicate', 'I']]);
+        expect(report.errors[0].message).toContain('pronouns, extra');
+    });
+
+    it('reports an alias claimed by another sign as a conflict', () => {
+        const report = validateLexicon([{ name: 'test', signs: [
+            { gloss: 'I', aliases: ['ME'], hands: 'one', ...POINT },
+            { gloss: 'ME', hands: 'one', ...POINT },
+            { gloss: 'MYSELF', aliases: ['ME'], hands: 'one', ...POINT }
+        ] }], null);
+        expect(report.errors.map(e => [e.kind, e.gloss])).toEqual([['conflict', 'ME']]);
+    });
+
+    it('reports a definition that does not parse', () => {
+        const report = validateLexicon([{ name: 'test', signs: [{ gloss: 'YOU', hands: 'three', ...POINT }] }], null);
+        expect(report.errors.map(e => [e.kind, e.gloss])).toEqual([['invalid', 'YOU']]);
+        expect(report.signCount).toBe(0);
+    });
+
+    it('finds no errors in the shipped lexicons', () => {
+        expect(validateLexicon(LEXICON_SOURCES).errors).toEqual([]);
+        expect(validateLexicon(BSL_LEXICON_SOURCES, null).errors).toEqual([]);
+    });
+
+    it('warns about signs that move the other hand without declaring it', () => {
+        expect(handsWarnings([
+            { gloss: 'I', ...POINT },
+            { gloss: 'YOU', hands: 'one', ...POINT },
+            { gloss: 'WE', hands: 'both', ...POINT }
+        ])).toEqual(['I']);
+    });
+
+    it('finds every sign in the shipped lexicons declaring its hands', () => {
+        expect(handsWarnings(LEXICON_SOURCES.flatMap(s => s.signs))).toEqual([]);
+        expect(handsWarnings(BSL_LEXICON_SOURCES.flatMap(s => s.signs))).toEqual([]);
+    });
+
+    it('signs pronouns with one hand', () => {
+        const pronouns = LEXICON_SOURCES.find(s => s.name === 'pronouns')!.signs as { hands?: string }[];
+        expect(pronouns.every(p => p.hands === 'one')).toBe(true);
+    });
+});
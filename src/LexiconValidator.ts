@@ -0,0 +1,138 @@
+// Lexicon Validator
+// Loads every sign definition and reports problems:
+// - invalid:    a definition that doesn't parse
+// - duplicate:  the same gloss defined more than once (only the first would ever play)
+// - conflict:   an alias claimed by another sign's gloss or alias
+// - uncovered:  a gloss englishToASLGloss can emit that no sign covers (it gets fingerspelled instead).
+//               Only checked against a vocabulary; starter lexicons like BSL's skip it.
+// - hands:      a sign that doesn't declare "hands". It defaults to both, so the non-dominant
+//               hand mirrors it: wrong for a one-handed sign like I or YOU.
+// Duplicates, conflicts and invalid definitions are errors and fail `npm run build` (see vite.config.ts).
+
+import { LEXICON_SOURCES, parseSignDefinition } from './SignLexicon';
+import { getGlossVocabulary } from './ASLGloss';
+
+export type LexiconIssueKind = 'invalid' | 'duplicate' | 'conflict' | 'uncovered' | 'hands';
+
+export interface LexiconIssue {
+    severity: 'error' | 'warning';
+    kind: LexiconIssueKind;
+    gloss: string;
+    message: string;
+}
+
+export interface LexiconReport {
+    signCount: number;
+    issues: LexiconIssue[];
+    errors: LexiconIssue[];
+    warnings: LexiconIssue[];
+}
+
+// Where a gloss or alias was claimed
+interface Claim {
+    source: string;
+    gloss: string;     // The sign that claimed it
+    isAlias: boolean;
+}
+
+export function validateLexicon(
+    sources: { name: string, signs: unknown[] }[] = LEXICON_SOURCES,
+    vocabulary: Set<string> | null = getGlossVocabulary()
+): LexiconReport {
+    const issues: LexiconIssue[] = [];
+    const claims = new Map<string, Claim[]>();
+    let signCount = 0;
+
+    for (const source of sources) {
+        source.signs.forEach((raw, i) => {
+            let sign;
+            try {
+                sign = parseSignDefinition(raw);
+            } catch (err: any) {
+                issues.push({
+                    severity: 'error',
+                    kind: 'invalid',
+                    gloss: (raw as any)?.gloss ?? `#${i}`,
+                    message: `${source.name}[${i}]: ${err.message}`
+                });
+                return;
+            }
+
+            signCount++;
+            if ((raw as any).hands === undefined) {
+                issues.push({
+                    severity: 'warning',
+                    kind: 'hands',
+                    gloss: sign.gloss,
+                    message: `${source.name}: ${sign.gloss} moves both hands without declaring "hands" (one, both or dominant-base)`
+                });
+            }
+
+            const keys = [{ key: sign.gloss, isAlias: false }, ...sign.aliases.map(a => ({ key: a, isAlias: true }))];
+            for (const { key, isAlias } of keys) {
+                const list = claims.get(key) || [];
+                list.push({ source: source.name, gloss: sign.gloss, isAlias });
+                claims.set(key, list);
+            }
+        });
+    }
+
+    // Duplicates and conflicts
+    for (const [key, list] of claims) {
+        if (list.length < 2) continue;
+
+        const where = list.map(c => c.isAlias ? `${c.source} (alias of ${c.gloss})` : c.source).join(', ');
+        if (list.every(c => !c.isAlias)) {
+            issues.push({
+                severity: 'error',
+                kind: 'duplicate',
+                gloss: key,
+                message: `${key} is defined ${list.length} times: ${where}`
+            });
+        } else {
+            issues.push({
+                severity: 'error',
+                kind: 'conflict',
+                gloss: key,
+                message: `${key} is claimed by more than one sign: ${where}`
+            });
+        }
+    }
+
+    // Coverage of what the gloss converter emits
+    for (const gloss of Array.from(vocabulary || []).sort()) {
+        if (claims.has(gloss)) continue;
+        issues.push({
+            severity: 'warning',
+            kind: 'uncovered',
+            gloss,
+            message: `${gloss} can be emitted by englishToASLGloss but no sign covers it`
+        });
+    }
+
+    return {
+        signCount,
+        issues,
+        errors: issues.filter(i => i.severity === 'error'),
+        warnings: issues.filter(i => i.severity === 'warning')
+    };
+}
+
+// Human-readable report. Uncovered glosses are listed on one line since there are many.
+export function formatLexiconReport(report: LexiconReport, label?: string): string {
+    const lines = [
+        `[LexiconValidator] ${label ? `${label}: ` : ''}${report.signCount} signs, ${report.errors.length} errors, ${report.warnings.length} warnings`
+    ];
+
+    for (const issue of report.issues) {
+        if (issue.kind === 'uncovered') continue;
+        lines.push(`  ${issue.severity} ${issue.kind}: ${issue.message}`);
+    }
+
+    const uncovered = report.issues.filter(i => i.kind === 'uncovered').map(i => i.gloss);
+    if (uncovered.length > 0) {
+        lines.push(`  warning uncovered (${uncovered.length}): ${uncovered.join(', ')}`);
+    }
+
+    return lines.join('\n');
+}
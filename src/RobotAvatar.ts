@@ -1,45 +1,128 @@
 /// <reference path="./types/globals.d.ts" />
 import { RobotHand } from './RobotHand';
-import { ASL_ALPHABET } from './ASLAlphabet';
-import { englishToASLGloss } from './ASLGloss';
+import { RobotBody } from './RobotBody';
+import { RobotFace } from './RobotFace';
+import { RealtimeClock } from './AnimationClock';
+import type { AnimationClock } from './AnimationClock';
+import type { LetterPose } from './ASLAlphabet';
+import type { GlossSentence, GlossToken } from './GlossAST';
+import { DEFAULT_SIGN_DURATION } from './SignLexicon';
+import { SIGN_LANGUAGES, glossFor } from './SignLanguages';
+import type { SignLanguage } from './SignLanguages';
+import { SPOKEN_LANGUAGES } from './SpokenLanguages';
+import type { SpokenLanguage } from './SpokenLanguages';
+import { getSignTimeline } from './SignTimeline';
+import { SignQueue, unsignedTokens } from './SignQueue';
+import type { SignStep } from './SignQueue';
+import { numberTokenDigits, ordinalLabel, ORDINAL_PREFIX } from './ASLNumbers';
+import { DEFAULT_SETTINGS } from './Settings';
+import type { DominantHand } from './Settings';
+
+// Fingerspelling timing (ms)
+const LETTER_DURATION = 300;  // Fluent pace, a little over 3 letters a second
+const MOTION_LETTER_DURATION = 600; // J and Z need time to trace their path
+const LAST_LETTER_HOLD = 250; // Extra hold on the final letter so the word reads as finished
+const PAUSE_DURATION = 300;   // Gap between two fingerspelled words
+const SENTENCE_PAUSE_DURATION = 600; // Rest between two sentences
+const REPEAT_SLIDE = 0.25;    // Sideways slide for a repeated letter
+
+// Number timing (ms)
+const DIGIT_DURATION = 350;   // Each digit of a number sign
+const DIGIT_SLIDE = 0.15;     // Later digits move slightly to the side ("2" then "5" in 25)
+
+// Questions hold their last sign so the question reads as finished (ms)
+const QUESTION_HOLD = 500;
+
+// Ordinals twist the number handshape (palm out to palm in)
+const ORDINAL_TWIST: [number, number, number][] = [[-0.2, 0, 0], [-0.2, 0.8, 0]];
 
 export class RobotAvatar {
     container: HTMLElement;
     scene!: THREE.Scene;
     camera!: THREE.PerspectiveCamera;
     renderer!: THREE.WebGLRenderer;
-    clock: THREE.Clock;
+    clock: AnimationClock;
 
+    body: RobotBody;
+    face: RobotFace;
     leftHand: RobotHand;
     rightHand: RobotHand;
 
+    // The dominant hand fingerspells and makes one-handed signs; the other hand rests or,
+    // in two-handed signs, mirrors it
+    dominantHand: DominantHand = DEFAULT_SETTINGS.dominantHand;
+
+    // The language sentences come in and the one they are signed in
+    signLanguage: SignLanguage = SIGN_LANGUAGES[DEFAULT_SETTINGS.signLanguage];
+    spokenLanguage: SpokenLanguage = SPOKEN_LANGUAGES[DEFAULT_SETTINGS.spokenLanguage];
+
     // Queue State
-    animationQueue: string[] = [];
+    queue = new SignQueue();
     isAnimating: boolean = false;
-    currentAnimationEnd: number = 0;
+    currentAnimationEnd: number = 0; // Clock time in ms
 
     // Current sign display element
     signDisplay: HTMLElement | null = null;
 
-    constructor(containerId: string) {
+    // Previous fingerspelled letter and its slide (to show repeated letters)
+    private lastLetter: string | null = null;
+    private letterSlide: number = 0;
+
+    // Timed handshapes for signs made of several poses (the digits of a number)
+    private poseSchedule: { at: number, pose: LetterPose, slide: number, duration: number }[] = [];
+
+    // Pass a ManualClock to step animation time deterministically
+    constructor(containerId: string, clock: AnimationClock = new RealtimeClock()) {
         const el = document.getElementById(containerId);
         if (!el) throw new Error(`Container ${containerId} not found`);
         this.container = el;
-        this.clock = new THREE.Clock();
+        this.clock = clock;
 
         // Get the sign display element
         this.signDisplay = document.getElementById('current-sign');
 
         this.initScene();
 
+        // Torso and arms; the arms follow the hands
+        this.body = new RobotBody(this.scene);
+        this.face = new RobotFace(this.body.head, this.clock);
+
         // Create Hands (attached to scene)
-        this.leftHand = new RobotHand('left', this.scene);
-        this.rightHand = new RobotHand('right', this.scene);
+        this.leftHand = new RobotHand('left', this.scene, this.clock);
+        this.rightHand = new RobotHand('right', this.scene, this.clock);
 
         // Handle resize
         window.addEventListener('resize', () => this.onWindowResize(), false);
     }
 
+    get dominant(): RobotHand {
+        return this.dominantHand === 'left' ? this.leftHand : this.rightHand;
+    }
+
+    get nonDominant(): RobotHand {
+        return this.dominantHand === 'left' ? this.rightHand : this.leftHand;
+    }
+
+    // Switch dominant hands; takes effect from the next sign
+    setDominantHand(side: DominantHand) {
+        if (side === this.dominantHand) return;
+        console.log(`[Avatar] Dominant hand: ${side}`);
+        this.dominantHand = side;
+        if (!this.isAnimating) {
+            this.leftHand.triggerAnimation('IDLE');
+            this.rightHand.triggerAnimation('IDLE');
+        }
+    }
+
+    // Switch languages; takes effect from the next sentence (queued signs keep playing)
+    setLanguages(sign: SignLanguage, spoken: SpokenLanguage) {
+        console.log(`[Avatar] Languages: ${spoken.name} to ${sign.name}`);
+        this.signLanguage = sign;
+        this.spokenLanguage = spoken;
+        this.leftHand.lexicon = sign.lexicon;
+        this.rightHand.lexicon = sign.lexicon;
+    }
+
     initScene() {
         this.scene = new THREE.Scene();
         this.scene.fog = new THREE.FogExp2(0x111827, 0.05);
@@ -94,82 +177,216 @@ export class RobotAvatar {
         }
     }
 
-    // Main entry point for sentences
-    triggerAnimation(input: string) {
+    // Main entry point for sentences. Returns the gloss so callers can show it.
+    triggerAnimation(input: string): GlossSentence {
         console.log(`[Avatar] Processing: "${input}"`);
 
-        // Convert English to ASL gloss (handles grammar, tense, articles, etc.)
-        const glossWords = englishToASLGloss(input);
-        console.log(`[Avatar] ASL Gloss: ${glossWords.join(' ')}`);
+        // Convert to gloss (handles grammar, tense, articles, etc.)
+        const gloss = this.glossOf(input);
+        console.log(`[Avatar] ${this.signLanguage.name} Gloss: ${gloss.toString()}`);
 
-        // Queue EVERY word - RobotHand has category-based animations for all words
-        for (const word of glossWords) {
-            this.animationQueue.push(word);
-        }
+        this.queue.push(gloss.tokens);
 
-        console.log(`[Avatar] Queue length: ${this.animationQueue.length}`);
+        console.log(`[Avatar] Queue length: ${this.queue.length}`);
+        return gloss;
     }
 
-    animate() {
-        const time = this.clock.getElapsedTime();
-        const now = Date.now();
+    // Streaming speech: sign an interim transcript of the utterance still being spoken
+    // (see SignQueue.updateLive). Returns the interim gloss.
+    updateInterim(input: string): GlossSentence {
+        const gloss = this.glossOf(input);
+        this.queue.updateLive(gloss.tokens);
+        return gloss;
+    }
 
-        // Queue Processing - check if ready for next animation
-        if (!this.isAnimating && this.animationQueue.length > 0) {
-            const nextAnim = this.animationQueue.shift();
-            if (nextAnim) {
-                this.startAnimation(nextAnim);
-            }
-        }
+    // The final transcript of a streamed utterance replaces whatever of it hasn't started yet
+    finishInterim(input: string): GlossSentence {
+        console.log(`[Avatar] Final: "${input}"`);
+        const gloss = this.glossOf(input);
+        console.log(`[Avatar] ${this.signLanguage.name} Gloss: ${gloss.toString()}`);
+        this.queue.finishLive(gloss.tokens);
+        return gloss;
+    }
+
+    // Drop what hasn't started of a streamed utterance (its final transcript needs confirming).
+    // Returns the tokens that have started, to leave out when it is confirmed (triggerConfirmed).
+    cancelInterim(): GlossToken[] {
+        return this.queue.cancelLive();
+    }
+
+    // Sign a confirmed transcript after its interim signing was cancelled. Each token already
+    // signed is left out once, wherever the confirmed gloss puts it ("I" signed, then
+    // COOKIE I LIKE confirmed signs COOKIE LIKE); signs can't be taken back, so the rest plays.
+    triggerConfirmed(input: string, signed: GlossToken[]): GlossSentence {
+        console.log(`[Avatar] Confirmed: "${input}"`);
+        const gloss = this.glossOf(input);
+        console.log(`[Avatar] ${this.signLanguage.name} Gloss: ${gloss.toString()}`);
+        this.queue.push(unsignedTokens(gloss.tokens, signed));
+        return gloss;
+    }
+
+    private glossOf(input: string): GlossSentence {
+        return glossFor(input, this.signLanguage, this.spokenLanguage);
+    }
+
+    animate() {
+        this.clock.tick();
+        const now = this.nowMs();
 
         // Check if animation finished
         if (this.isAnimating && now > this.currentAnimationEnd) {
             this.isAnimating = false;
-            // When queue is empty, return to idle
-            if (this.animationQueue.length === 0) {
+            // When queue is empty, return to idle. Otherwise the next sign blends straight
+            // in from this one (see RobotHand transitions) without passing through IDLE.
+            if (this.queue.length === 0) {
                 this.hideCurrentSign();
                 // Return hands to idle position
                 this.leftHand.triggerAnimation('IDLE');
                 this.rightHand.triggerAnimation('IDLE');
+                this.face.reset();
             }
         }
 
-        this.leftHand.update(time);
-        this.rightHand.update(time);
+        // Queue Processing - start the next sign on the same frame the last one ended
+        if (!this.isAnimating && this.queue.length > 0) {
+            const nextAnim = this.queue.next();
+            if (nextAnim) {
+                this.startAnimation(nextAnim);
+            }
+        }
+
+        // Play scheduled poses that are due
+        while (this.poseSchedule.length > 0 && now >= this.poseSchedule[0].at) {
+            const step = this.poseSchedule.shift()!;
+            this.poseHands(step.pose, step.slide, step.duration);
+        }
+
+        this.leftHand.update();
+        this.rightHand.update();
+        this.body.update(this.leftHand.wrist.position, this.rightHand.wrist.position);
+        this.face.update();
 
         this.renderer.render(this.scene, this.camera);
     }
 
-    private startAnimation(type: string) {
-        console.log(`[Avatar] Playing: ${type}`);
+    private startAnimation(step: SignStep) {
+        const token = step.token;
+        console.log(`[Avatar] Playing: ${step.letter || token.toString() || token.type}`);
         this.isAnimating = true;
+        this.poseSchedule = [];
 
         // Natural pace animations
-        let duration = 800; // Good readable pace for words
-        let displayText = type;
+        let duration = DEFAULT_SIGN_DURATION;
+        let displayText = token.gloss;
 
-        if (type.startsWith('CHAR_')) {
+        if (step.letter) {
             // It's a letter - fingerspell
-            const char = type.split('_')[1].toUpperCase();
-            // @ts-ignore
-            const pose = ASL_ALPHABET[char.toLowerCase()];
+            const char = step.letter;
+            const pose = this.signLanguage.alphabet[char.toLowerCase()];
 
             if (pose) {
-                this.rightHand.poseHand(pose);
-                this.leftHand.triggerAnimation('IDLE');
-                duration = 400; // Readable pace for letters
+                // Hold the last letter of a word a little longer
+                const next = this.queue.peek();
+                const isLastLetter = !next || next.token !== token;
+                const letterDuration = pose.motion ? MOTION_LETTER_DURATION : LETTER_DURATION;
+                duration = letterDuration + (isLastLetter ? LAST_LETTER_HOLD : 0);
+
+                // A repeated letter slides sideways instead of re-forming in place
+                this.letterSlide = char === this.lastLetter && this.letterSlide === 0 ? REPEAT_SLIDE : 0;
+                this.poseHands(pose, this.letterSlide, letterDuration);
             }
             displayText = char; // Show just the letter
+            this.lastLetter = char;
+        } else if (token.type === 'number') {
+            // Number sign - each digit's handshape in turn
+            const digits = numberTokenDigits(token.gloss);
+            const isOrdinal = token.gloss.startsWith(ORDINAL_PREFIX);
+            const start = this.nowMs();
+
+            digits.split('').forEach((digit, i) => {
+                const pose = this.signLanguage.alphabet[digit];
+                if (!pose) return;
+                this.poseSchedule.push({
+                    at: start + i * DIGIT_DURATION,
+                    pose: isOrdinal ? { ...pose, motion: ORDINAL_TWIST } : pose,
+                    slide: i * DIGIT_SLIDE,
+                    duration: DIGIT_DURATION
+                });
+            });
+            this.nonDominant.triggerAnimation('IDLE');
+
+            duration = digits.length * DIGIT_DURATION + LAST_LETTER_HOLD;
+            displayText = isOrdinal ? ordinalLabel(digits) : digits;
+            this.lastLetter = null;
+        } else if (token.type === 'pause' || token.type === 'boundary') {
+            // Brief rest between fingerspelled words, a longer one between sentences
+            this.leftHand.triggerAnimation('IDLE');
+            this.rightHand.triggerAnimation('IDLE');
+            duration = token.type === 'boundary' ? SENTENCE_PAUSE_DURATION : PAUSE_DURATION;
+            displayText = '';
+            this.lastLetter = null;
         } else {
-            // It's a word animation
-            this.leftHand.triggerAnimation(type);
-            this.rightHand.triggerAnimation(type);
-            duration = 800; // Almost a second per word
+            // Lexical and classifier signs - hands come from the lexicon, length from the sign's timeline
+            // The blend in from the previous sign replaces the timeline's onset
+            // The other hand rests, mirrors the dominant hand or plays the sign's base track
+            const sign = this.signLanguage.lexicon.get(token.gloss);
+            const transition = this.dominant.triggerAnimation(token.gloss);
+            if (sign) {
+                const timeline = getSignTimeline(sign);
+                duration = (transition + timeline.length - timeline.onset) * 1000;
+            }
+
+            if (sign && sign.hands === 'one') {
+                this.nonDominant.triggerAnimation('IDLE');
+            } else {
+                const baseTransition = this.nonDominant.triggerAnimation(token.gloss, 'base');
+                if (sign) {
+                    // The sign lasts until both hands are done
+                    const timeline = getSignTimeline(sign, 'base');
+                    duration = Math.max(duration, (baseTransition + timeline.length - timeline.onset) * 1000);
+                }
+            }
+            this.lastLetter = null;
+        }
+
+        // Non-manual markers on the face
+        this.applyNonManuals(token);
+
+        // The last sign of a question is held, and shown with a question mark
+        if (step.isLast && token.modifiers.question && displayText) {
+            duration += QUESTION_HOLD;
+            displayText += '?';
         }
 
         // Show the current sign
-        this.showCurrentSign(displayText);
+        if (displayText) this.showCurrentSign(displayText);
+        else this.hideCurrentSign();
+
+        this.currentAnimationEnd = this.nowMs() + duration;
+    }
+
+    // A letter or digit: the dominant hand forms it, the other hand rests or forms its base
+    private poseHands(pose: LetterPose, slide: number, duration: number) {
+        this.dominant.poseHand(pose, slide, duration);
+        if (pose.base) this.nonDominant.poseHand(pose.base, 0, duration);
+        else this.nonDominant.triggerAnimation('IDLE');
+    }
+
+    // Sign timing is in ms of animation time
+    private nowMs(): number {
+        return this.clock.now * 1000;
+    }
 
-        this.currentAnimationEnd = Date.now() + duration;
+    // Brows and head for the token's modifiers, mouth from the lexicon:
+    // WH-questions furrow the brows, yes/no questions raise them with the head forward,
+    // and negated signs are made under a headshake
+    private applyNonManuals(token: GlossToken) {
+        const question = token.modifiers.question;
+        this.face.setBrows(question === 'wh' ? -1 : question === 'yes-no' ? 1 : 0);
+        this.face.setTilt(question === 'yes-no' ? 0.15 : question === 'wh' ? 0.08 : 0);
+        this.face.setHeadMotion(token.modifiers.negated ? 'shake' : 'none');
+
+        const sign = token.type === 'lexical' || token.type === 'classifier' ? this.signLanguage.lexicon.get(token.gloss) : undefined;
+        this.face.setMouth(sign && sign.mouth ? sign.mouth : 'neutral');
     }
 }
@@ -0,0 +1,161 @@
+/// <reference path="./types/globals.d.ts" />
+// Robot Body
+// Torso, head and two arms. The hands move on their own (RobotHand); each frame the arms
+// are solved with two-bone IK so the shoulder, elbow and forearm reach wherever the hand is.
+
+import { SIGNING_LOCATIONS } from './SigningSpace';
+import type { Position } from './SigningSpace';
+
+// Body layout (scene units). The torso stands behind signing space.
+const TORSO_CENTER = { x: 0, y: 1.5, z: -2 };
+const TORSO_SIZE = { width: 4, height: 5, depth: 1.6 };
+const SHOULDER = { x: 2.3, y: 3.6, z: -2 };  // Right shoulder; the left mirrors it
+const HEAD_CENTER = { x: 0, y: 6, z: -2 };
+const HEAD_RADIUS = 1.3;
+
+const UPPER_ARM_LENGTH = 3.4;
+const FOREARM_LENGTH = 3.2;
+
+// Elbows bend down, out to the side and slightly back (right arm; x mirrors)
+const ELBOW_POLE = { x: 1, y: -1, z: -0.4 };
+
+function sub(a: Position, b: Position): Position {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(a: Position, k: number): Position {
+    return { x: a.x * k, y: a.y * k, z: a.z * k };
+}
+
+function add(a: Position, b: Position): Position {
+    return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function dot(a: Position, b: Position): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function length(a: Position): number {
+    return Math.sqrt(dot(a, a));
+}
+
+// Two-bone IK: where the elbow goes so the wrist reaches target from root, bending toward
+// pole. Targets out of reach are pulled in along the same direction; the returned wrist
+// is where the chain actually ends.
+export function solveTwoBoneIK(root: Position, target: Position, upper: number, lower: number, pole: Position) {
+    const toTarget = sub(target, root);
+    const rawDistance = length(toTarget);
+    const dir = rawDistance > 1e-6 ? scale(toTarget, 1 / rawDistance) : { x: 0, y: -1, z: 0 };
+
+    const minReach = Math.abs(upper - lower) + 1e-4;
+    const maxReach = upper + lower - 1e-4;
+    const distance = Math.min(Math.max(rawDistance, minReach), maxReach);
+
+    // Law of cosines for the angle at the root
+    const cosRoot = (upper * upper + distance * distance - lower * lower) / (2 * upper * distance);
+    const sinRoot = Math.sqrt(Math.max(0, 1 - cosRoot * cosRoot));
+
+    // Bend direction: the pole with its component along the arm removed
+    let bend = sub(pole, scale(dir, dot(pole, dir)));
+    if (length(bend) < 1e-6) bend = { x: 0, y: -1, z: 0 };
+    bend = scale(bend, 1 / length(bend));
+
+    const elbow = add(root, add(scale(dir, upper * cosRoot), scale(bend, upper * sinRoot)));
+    const wrist = add(root, scale(dir, distance));
+    return { elbow, wrist };
+}
+
+interface Arm {
+    shoulder: Position;
+    pole: Position;
+    upper: THREE.Mesh;
+    forearm: THREE.Mesh;
+    elbowJoint: THREE.Mesh;
+}
+
+export class RobotBody {
+    group: THREE.Group;
+    head!: THREE.Group;
+    private arms: { left: Arm, right: Arm };
+
+    constructor(parent: THREE.Object3D) {
+        console.log("[RobotBody] Building body...");
+        this.group = new THREE.Group();
+        parent.add(this.group);
+
+        const material = new THREE.MeshStandardMaterial({ color: 0xc0c0c0, roughness: 0.4, metalness: 0.8 });
+        const jointMaterial = new THREE.MeshStandardMaterial({ color: 0x333333, roughness: 0.7, metalness: 0.5 });
+
+        this.buildTorso(material, jointMaterial);
+        this.arms = {
+            left: this.buildArm(-1, material, jointMaterial),
+            right: this.buildArm(1, material, jointMaterial)
+        };
+
+        // Start with the hands in neutral space
+        const rest = SIGNING_LOCATIONS.neutral;
+        this.update({ x: -rest.x, y: rest.y, z: rest.z }, rest);
+    }
+
+    private buildTorso(material: THREE.Material, jointMaterial: THREE.Material) {
+        const torso = new THREE.Mesh(
+            new THREE.BoxGeometry(TORSO_SIZE.width, TORSO_SIZE.height, TORSO_SIZE.depth), material
+        );
+        torso.position.set(TORSO_CENTER.x, TORSO_CENTER.y, TORSO_CENTER.z);
+        this.group.add(torso);
+
+        const neck = new THREE.Mesh(new THREE.CylinderGeometry(0.45, 0.55, 1.2, 16), jointMaterial);
+        neck.position.set(HEAD_CENTER.x, TORSO_CENTER.y + TORSO_SIZE.height / 2 + 0.4, HEAD_CENTER.z);
+        this.group.add(neck);
+
+        // The head is a group so a face rig can hang features off it
+        this.head = new THREE.Group();
+        this.head.position.set(HEAD_CENTER.x, HEAD_CENTER.y, HEAD_CENTER.z);
+        this.head.add(new THREE.Mesh(new THREE.SphereGeometry(HEAD_RADIUS, 24, 24), material));
+        this.group.add(this.head);
+    }
+
+    // side: 1 = right, -1 = left
+    private buildArm(side: number, material: THREE.Material, jointMaterial: THREE.Material): Arm {
+        const shoulder = { x: SHOULDER.x * side, y: SHOULDER.y, z: SHOULDER.z };
+
+        const shoulderJoint = new THREE.Mesh(new THREE.SphereGeometry(0.6, 16, 16), jointMaterial);
+        shoulderJoint.position.set(shoulder.x, shoulder.y, shoulder.z);
+        this.group.add(shoulderJoint);
+
+        // Cylinders are built along +Y and re-aimed every frame
+        const upper = new THREE.Mesh(new THREE.CylinderGeometry(0.4, 0.35, UPPER_ARM_LENGTH, 16), material);
+        const forearm = new THREE.Mesh(new THREE.CylinderGeometry(0.35, 0.3, FOREARM_LENGTH, 16), material);
+        const elbowJoint = new THREE.Mesh(new THREE.SphereGeometry(0.45, 16, 16), jointMaterial);
+        this.group.add(upper, forearm, elbowJoint);
+
+        const pole = { x: ELBOW_POLE.x * side, y: ELBOW_POLE.y, z: ELBOW_POLE.z };
+        return { shoulder, pole, upper, forearm, elbowJoint };
+    }
+
+    // Re-solve both arms for the hands' current wrist positions (scene coordinates)
+    update(leftWrist: Position, rightWrist: Position) {
+        this.solveArm(this.arms.left, leftWrist);
+        this.solveArm(this.arms.right, rightWrist);
+    }
+
+    private solveArm(arm: Arm, target: Position) {
+        const { elbow, wrist } = solveTwoBoneIK(arm.shoulder, target, UPPER_ARM_LENGTH, FOREARM_LENGTH, arm.pole);
+        this.placeBone(arm.upper, arm.shoulder, elbow);
+        this.placeBone(arm.forearm, elbow, wrist);
+        arm.elbowJoint.position.set(elbow.x, elbow.y, elbow.z);
+    }
+
+    // Center a +Y cylinder between two points and aim it from a to b
+    private placeBone(bone: THREE.Mesh, a: Position, b: Position) {
+        const dir = sub(b, a);
+        const len = length(dir);
+        bone.position.set((a.x + b.x) / 2, (a.y + b.y) / 2, (a.z + b.z) / 2);
+        if (len > 1e-6) {
+            bone.quaternion.setFromUnitVectors(
+                new THREE.Vector3(0, 1, 0),
+                new THREE.Vector3(dir.x / len, dir.y / len, dir.z / len)
+            );
+        }
+    }
+}
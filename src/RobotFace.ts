@@ -0,0 +1,189 @@
+/// <reference path="./types/globals.d.ts" />
+// Robot Face
+// Non-manual markers on the head RobotBody builds: eyebrows, eye gaze, mouth shapes and
+// head nod/shake/tilt. Like RobotHand it keeps targets separate from what is shown and
+// smooths toward them on the shared animation clock.
+
+import { smoothDamp } from './AnimationClock';
+import type { AnimationClock } from './AnimationClock';
+import type { MouthShape } from './SignLexicon';
+
+export type HeadMotion = 'none' | 'nod' | 'shake';
+
+// Mouth scale (width, opening) and cheek size per shape
+const MOUTH_PARAMS: { [key in MouthShape]: { width: number, open: number, cheeks: number } } = {
+    neutral: { width: 1, open: 1, cheeks: 1 },
+    open: { width: 0.9, open: 3.5, cheeks: 1 },
+    oo: { width: 0.45, open: 2, cheeks: 0.9 },
+    ee: { width: 1.4, open: 1.2, cheeks: 1 },
+    mm: { width: 0.9, open: 0.5, cheeks: 1 },
+    th: { width: 0.8, open: 1.8, cheeks: 1 },
+    puff: { width: 0.6, open: 0.5, cheeks: 1.6 },
+    cha: { width: 1.2, open: 3, cheeks: 1 }
+};
+
+// Layout on the head sphere (head units, face toward +z)
+const EYE = { x: 0.45, y: 0.2, z: 1.12 };
+const BROW = { x: 0.45, y: 0.62, z: 1.1 };
+const MOUTH = { x: 0, y: -0.5, z: 1.15 };
+const CHEEK = { x: 0.75, y: -0.3, z: 0.9 };
+
+const BROW_TRAVEL = 0.15;    // Scene units a brow moves up or down
+const BROW_FURROW = 0.35;    // Radians the inner ends drop when furrowed
+const GAZE_TRAVEL = 0.08;    // Pupil offset at full gaze
+const NOD_SPEED = 8;         // rad/s
+const NOD_AMOUNT = 0.15;
+const SHAKE_SPEED = 9;
+const SHAKE_AMOUNT = 0.3;
+const SMOOTH_TIME = 0.1;
+
+// Everything the face can be told to do
+interface FaceState {
+    brows: number;                   // -1 furrowed (WH-question) .. 1 raised (yes/no question)
+    gazeX: number;                   // -1 left .. 1 right
+    gazeY: number;                   // -1 down .. 1 up
+    mouthWidth: number;
+    mouthOpen: number;
+    cheeks: number;
+    headX: number;                   // Radians: forward tilt (+) / back
+    headY: number;                   // Turn
+    headZ: number;                   // Side tilt
+}
+
+function neutralState(): FaceState {
+    return { brows: 0, gazeX: 0, gazeY: 0, mouthWidth: 1, mouthOpen: 1, cheeks: 1, headX: 0, headY: 0, headZ: 0 };
+}
+
+export class RobotFace {
+    head: THREE.Group;
+    clock: AnimationClock;
+
+    private targetState: FaceState = neutralState();
+    private currentState: FaceState = neutralState();
+    private velocity: FaceState = { brows: 0, gazeX: 0, gazeY: 0, mouthWidth: 0, mouthOpen: 0, cheeks: 0, headX: 0, headY: 0, headZ: 0 };
+
+    private motion: HeadMotion = 'none';
+    private tilt = { x: 0, z: 0 };
+
+    private brows: THREE.Mesh[] = [];
+    private pupils: THREE.Mesh[] = [];
+    private cheeks: THREE.Mesh[] = [];
+    private mouth!: THREE.Mesh;
+
+    constructor(head: THREE.Group, clock: AnimationClock) {
+        this.head = head;
+        this.clock = clock;
+        this.buildFace();
+    }
+
+    private buildFace() {
+        const dark = new THREE.MeshStandardMaterial({ color: 0x333333, roughness: 0.7, metalness: 0.5 });
+        const eyeMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.3, metalness: 0.1 });
+        const pupilMaterial = new THREE.MeshStandardMaterial({ color: 0x00aaff, roughness: 0.3, metalness: 0.2 });
+        const shell = new THREE.MeshStandardMaterial({ color: 0xc0c0c0, roughness: 0.4, metalness: 0.8 });
+
+        for (const side of [-1, 1]) {
+            const eye = new THREE.Mesh(new THREE.SphereGeometry(0.22, 16, 16), eyeMaterial);
+            eye.position.set(EYE.x * side, EYE.y, EYE.z);
+            this.head.add(eye);
+
+            const pupil = new THREE.Mesh(new THREE.SphereGeometry(0.1, 12, 12), pupilMaterial);
+            pupil.position.set(EYE.x * side, EYE.y, EYE.z + 0.16);
+            this.head.add(pupil);
+            this.pupils.push(pupil);
+
+            const brow = new THREE.Mesh(new THREE.BoxGeometry(0.5, 0.09, 0.1), dark);
+            brow.position.set(BROW.x * side, BROW.y, BROW.z);
+            this.head.add(brow);
+            this.brows.push(brow);
+
+            const cheek = new THREE.Mesh(new THREE.SphereGeometry(0.3, 12, 12), shell);
+            cheek.position.set(CHEEK.x * side, CHEEK.y, CHEEK.z);
+            this.head.add(cheek);
+            this.cheeks.push(cheek);
+        }
+
+        this.mouth = new THREE.Mesh(new THREE.BoxGeometry(0.6, 0.08, 0.1), dark);
+        this.mouth.position.set(MOUTH.x, MOUTH.y, MOUTH.z);
+        this.head.add(this.mouth);
+    }
+
+    // --- Controls ---
+
+    // -1 furrowed .. 0 neutral .. 1 raised
+    setBrows(amount: number) {
+        this.targetState.brows = Math.max(-1, Math.min(1, amount));
+    }
+
+    // Where the eyes look, -1..1 on each axis (0, 0 = at the viewer)
+    setGaze(x: number, y: number) {
+        this.targetState.gazeX = Math.max(-1, Math.min(1, x));
+        this.targetState.gazeY = Math.max(-1, Math.min(1, y));
+    }
+
+    setMouth(shape: MouthShape) {
+        const params = MOUTH_PARAMS[shape];
+        this.targetState.mouthWidth = params.width;
+        this.targetState.mouthOpen = params.open;
+        this.targetState.cheeks = params.cheeks;
+    }
+
+    // Repeating nod or shake on top of the tilt
+    setHeadMotion(motion: HeadMotion) {
+        this.motion = motion;
+    }
+
+    // Static head tilt in radians: forward (+x) and to the side (z)
+    setTilt(forward: number, side: number = 0) {
+        this.tilt = { x: forward, z: side };
+    }
+
+    // Back to a neutral face
+    reset() {
+        this.setBrows(0);
+        this.setGaze(0, 0);
+        this.setMouth('neutral');
+        this.setHeadMotion('none');
+        this.setTilt(0, 0);
+    }
+
+    // --- Frame update ---
+
+    update() {
+        const time = this.clock.now;
+
+        this.targetState.headX = this.tilt.x + (this.motion === 'nod' ? Math.sin(time * NOD_SPEED) * NOD_AMOUNT : 0);
+        this.targetState.headY = this.motion === 'shake' ? Math.sin(time * SHAKE_SPEED) * SHAKE_AMOUNT : 0;
+        this.targetState.headZ = this.tilt.z;
+
+        const dt = this.clock.delta;
+        for (const key of Object.keys(this.currentState) as (keyof FaceState)[]) {
+            const next = smoothDamp(this.currentState[key], this.targetState[key], this.velocity[key], SMOOTH_TIME, dt);
+            this.currentState[key] = next.value;
+            this.velocity[key] = next.velocity;
+        }
+
+        this.applyToMesh();
+    }
+
+    private applyToMesh() {
+        const s = this.currentState;
+        this.head.rotation.set(s.headX, s.headY, s.headZ);
+
+        this.brows.forEach((brow, i) => {
+            const side = i === 0 ? -1 : 1;
+            brow.position.y = BROW.y + s.brows * BROW_TRAVEL;
+            // Furrowing drops the inner ends (toward the nose)
+            brow.rotation.z = Math.min(s.brows, 0) * BROW_FURROW * -side;
+        });
+
+        this.pupils.forEach((pupil, i) => {
+            const side = i === 0 ? -1 : 1;
+            pupil.position.x = EYE.x * side + s.gazeX * GAZE_TRAVEL;
+            pupil.position.y = EYE.y + s.gazeY * GAZE_TRAVEL;
+        });
+
+        this.mouth.scale.set(s.mouthWidth, s.mouthOpen, 1);
+        this.cheeks.forEach(cheek => cheek.scale.setScalar(s.cheeks));
+    }
+}
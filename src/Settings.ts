@@ -0,0 +1,89 @@
+// Settings
+// User preferences that persist between sessions in localStorage. Missing or invalid
+// values fall back to the defaults, so older saved settings keep working.
+
+import { isSpokenLanguageId } from './SpokenLanguages';
+import type { SpokenLanguageId } from './SpokenLanguages';
+import { isSignLanguageId } from './SignLanguages';
+import type { SignLanguageId } from './SignLanguages';
+
+export type DominantHand = 'left' | 'right';
+
+export interface Settings {
+    dominantHand: DominantHand; // The hand that fingerspells and makes one-handed signs
+    incrementalSpeech: boolean; // Sign interim speech results while the speaker is still talking
+    spokenLanguage: SpokenLanguageId; // Language speech is recognized (and typed text read) in
+    signLanguage: SignLanguageId;     // Language the avatar signs in
+    // Transcripts heard with less confidence (0..1) wait for the user to confirm them; 0 never waits
+    confirmBelow: number;
+    speakSigning: boolean;  // Read aloud the sentences the user signs
+    voice: string | null;   // Speech output voice id; null lets the engine pick one
+    speechRate: number;     // 0.5 .. 2
+    speechPitch: number;    // 0 .. 2
+}
+
+const STORAGE_KEY = 'omnihear.settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+    dominantHand: 'right',
+    incrementalSpeech: true,
+    spokenLanguage: 'en-US',
+    signLanguage: 'asl',
+    confirmBelow: 0.7,
+    speakSigning: true,
+    voice: null,
+    speechRate: 1,
+    speechPitch: 1
+};
+
+function inRange(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && value >= min && value <= max;
+}
+
+export function loadSettings(): Settings {
+    let saved: any = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') || {};
+    } catch (err) {
+        console.warn("[Settings] Could not read saved settings:", err);
+    }
+
+    return {
+        dominantHand: saved.dominantHand === 'left' || saved.dominantHand === 'right'
+            ? saved.dominantHand
+            : DEFAULT_SETTINGS.dominantHand,
+        incrementalSpeech: typeof saved.incrementalSpeech === 'boolean'
+            ? saved.incrementalSpeech
+            : DEFAULT_SETTINGS.incrementalSpeech,
+        spokenLanguage: isSpokenLanguageId(saved.spokenLanguage)
+            ? saved.spokenLanguage
+            : DEFAULT_SETTINGS.spokenLanguage,
+        signLanguage: isSignLanguageId(saved.signLanguage)
+            ? saved.signLanguage
+            : DEFAULT_SETTINGS.signLanguage,
+        confirmBelow: inRange(saved.confirmBelow, 0, 1)
+            ? saved.confirmBelow
+            : DEFAULT_SETTINGS.confirmBelow,
+        speakSigning: typeof saved.speakSigning === 'boolean'
+            ? saved.speakSigning
+            : DEFAULT_SETTINGS.speakSigning,
+        voice: typeof saved.voice === 'string'
+            ? saved.voice
+            : DEFAULT_SETTINGS.voice,
+        speechRate: inRange(saved.speechRate, 0.5, 2)
+            ? saved.speechRate
+            : DEFAULT_SETTINGS.speechRate,
+        speechPitch: inRange(saved.speechPitch, 0, 2)
+            ? saved.speechPitch
+            : DEFAULT_SETTINGS.speechPitch
+    };
+}
+
+export function saveSettings(settings: Settings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+        // Private browsing or storage disabled: the setting still applies for this session
+        console.warn("[Settings] Could not save settings:", err);
+    }
+}
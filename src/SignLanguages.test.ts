@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { isSignLanguageId } from './SignLanguages';
+
+describe('isSignLanguageId', () => {
+    it('accepts only the sign languages listed', () => {
+        expect(isSignLanguageId('asl')).toBe(true);
+        expect(isSignLanguageId('bsl')).toBe(true);
+        expect(isSignLanguageId('lsf')).toBe(false);
+        expect(isSignLanguageId(null)).toBe(false);
+    });
+
+    it('does not accept inherited object keys', () => {
+        expect(isSignLanguageId('toString')).toBe(false);
+        expect(isSignLanguageId('__proto__')).toBe(false);
+        expect(isSignLanguageId('hasOwnProperty')).toBe(false);
+    });
+});
@@ -0,0 +1,56 @@
+// Sign Languages
+// Sign languages the avatar can sign in. Each has its own lexicon and fingerspelling
+// alphabet, and its own take on the shared gloss rules (see ASLGloss.ts):
+// - ASL: one-handed alphabet, negation carried by the headshake alone
+// - BSL: two-handed alphabet, NOT signed at the end of a negated clause
+// Both put topics first and wh-words last, so the rest of the pipeline is shared.
+
+import { ASL_ALPHABET } from './ASLAlphabet';
+import type { FingerspellingAlphabet } from './ASLAlphabet';
+import { BSL_ALPHABET } from './BSLAlphabet';
+import { sentenceToGloss } from './ASLGloss';
+import { GlossSentence } from './GlossAST';
+import { signRegistry, bslSignRegistry, SignRegistry } from './SignLexicon';
+import type { SpokenLanguage } from './SpokenLanguages';
+
+export type SignLanguageId = 'asl' | 'bsl';
+
+export interface SignLanguage {
+    id: SignLanguageId;
+    name: string;
+    lexicon: SignRegistry;
+    alphabet: FingerspellingAlphabet;
+    finalNegation: boolean; // NOT closes a negated clause instead of being dropped
+}
+
+export const SIGN_LANGUAGES: { [key in SignLanguageId]: SignLanguage } = {
+    asl: {
+        id: 'asl',
+        name: 'ASL',
+        lexicon: signRegistry,
+        alphabet: ASL_ALPHABET,
+        finalNegation: false
+    },
+    bsl: {
+        id: 'bsl',
+        name: 'BSL',
+        lexicon: bslSignRegistry,
+        alphabet: BSL_ALPHABET,
+        finalNegation: true
+    }
+};
+
+export const SIGN_LANGUAGE_IDS = Object.keys(SIGN_LANGUAGES) as SignLanguageId[];
+
+export function isSignLanguageId(id: unknown): id is SignLanguageId {
+    return typeof id === 'string' && Object.prototype.hasOwnProperty.call(SIGN_LANGUAGES, id);
+}
+
+// Gloss a sentence spoken in one language for signing in another
+export function glossFor(sentence: string, sign: SignLanguage, spoken?: SpokenLanguage): GlossSentence {
+    return sentenceToGloss(sentence, {
+        spoken,
+        lexicon: sign.lexicon,
+        finalNegation: sign.finalNegation
+    });
+}
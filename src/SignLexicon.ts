@@ -0,0 +1,372 @@
+// Sign Lexicon
+// Declarative sign definitions loaded from JSON, plus the registry RobotHand reads at runtime.
+// Signs live in src/lexicon/*.json so they can be added or fixed without touching TypeScript,
+// and extra definitions can be loaded from a URL without rebuilding (see loadFromUrl).
+
+import greetings from './lexicon/greetings.json';
+import pronouns from './lexicon/pronouns.json';
+import questions from './lexicon/questions.json';
+import verbs from './lexicon/verbs.json';
+import emotions from './lexicon/emotions.json';
+import desires from './lexicon/desires.json';
+import family from './lexicon/family.json';
+import modifiers from './lexicon/modifiers.json';
+import functionWords from './lexicon/function-words.json';
+import everyday from './lexicon/everyday.json';
+import actionVerbs from './lexicon/action-verbs.json';
+import communicationVerbs from './lexicon/communication-verbs.json';
+import mentalVerbs from './lexicon/mental-verbs.json';
+import perceptionVerbs from './lexicon/perception-verbs.json';
+import stateVerbs from './lexicon/state-verbs.json';
+import placeNouns from './lexicon/place-nouns.json';
+import personNouns from './lexicon/person-nouns.json';
+import objectNouns from './lexicon/object-nouns.json';
+import animalNouns from './lexicon/animal-nouns.json';
+import timeNouns from './lexicon/time-nouns.json';
+import adjectives from './lexicon/adjectives.json';
+import numbers from './lexicon/numbers.json';
+import bslGreetings from './lexicon/bsl/greetings.json';
+import bslPronouns from './lexicon/bsl/pronouns.json';
+import bslQuestions from './lexicon/bsl/questions.json';
+import bslEveryday from './lexicon/bsl/everyday.json';
+import { isSigningLocation, LOCATION_NAMES } from './SigningSpace';
+import type { SigningLocation } from './SigningSpace';
+import { FINGER_NAMES, HANDSHAPES, isHandshapeName, handshapeCurls } from './Handshapes';
+import type { FingerName } from './Handshapes';
+
+// Periodic functions of time a curve can be built from
+// absSin = |sin| (taps and bounces that never go below the base)
+export type WaveFunction = 'sin' | 'cos' | 'absSin';
+
+export interface Wave {
+    fn: WaveFunction;
+    freq: number; // Radians per second
+    amp: number;
+}
+
+// A constant value, or a base value plus a sum of waves
+export type MotionCurve = number | { base?: number, waves: Wave[] };
+
+// How a keyframe is approached from the one before it
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+export const EASINGS: Easing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+
+// A timed pose. Wrist axes, fingers and location left out carry over from the previous keyframe.
+export interface SignKeyframe {
+    at: number; // ms from the start of the movement
+    ease: Easing;
+    handshape: Partial<{ [key in FingerName]: number }>;
+    shape?: string; // Named handshape (see Handshapes.ts) the curls above were taken from
+    wrist: Partial<{ x: number, y: number, z: number }>;
+    location?: SigningLocation;
+}
+
+// Mouth morphemes signed with the hands: oo (small/thin), ee (wide), mm (normal),
+// th (careless), puff (puffed cheeks: a lot), cha (large)
+export type MouthShape = 'neutral' | 'open' | 'oo' | 'ee' | 'mm' | 'th' | 'puff' | 'cha';
+export const MOUTH_SHAPES: MouthShape[] = ['neutral', 'open', 'oo', 'ee', 'mm', 'th', 'puff', 'cha'];
+
+// Which hands take part:
+// - one:           the dominant hand signs, the other rests
+// - both:          symmetric; the other hand mirrors the dominant one (or plays its own base track)
+// - dominant-base: the dominant hand acts on a base hand that plays the base track
+export type SignHands = 'one' | 'both' | 'dominant-base';
+export const SIGN_HANDS: SignHands[] = ['one', 'both', 'dominant-base'];
+
+// Which of a sign's tracks a hand plays
+export type HandRole = 'dominant' | 'base';
+
+// How one hand moves through a sign
+export interface HandTrack {
+    // Finger curls (0.0 = extended, 1.5 = curled). Fingers left out keep their previous curl.
+    handshape: Partial<{ [key in FingerName]: MotionCurve }>;
+    // Named handshape (see Handshapes.ts). In JSON "handshape" can be the name instead of
+    // curls; the curls are then filled in from the shape.
+    shape?: string;
+    // Wrist rotation in radians
+    wrist: { x: MotionCurve, y: MotionCurve, z: MotionCurve };
+    // Where in signing space the hand is (see SigningSpace.ts)
+    location: SigningLocation;
+    // Timed keyframes; when present they are played instead of the curves
+    keyframes?: SignKeyframe[];
+}
+
+// The sign's own handshape, wrist, location and keyframes are the dominant hand's track
+export interface SignDefinition extends HandTrack {
+    gloss: string;
+    aliases: string[];
+    note?: string;
+    hands: SignHands;
+    // The non-dominant hand's own track, with its own handshape and motion
+    base?: HandTrack;
+    // ms of movement for curve signs; rounded to whole cycles when compiled (see SignTimeline.ts)
+    duration: number;
+    mouth?: MouthShape;
+    hold?: number; // ms the last pose is held (SignTimeline default when left out)
+}
+
+export const DEFAULT_SIGN_DURATION = 800; // Good readable pace for words
+
+// Lexicon files in the order they are registered (the order of the old RobotHand switch)
+export const LEXICON_SOURCES: { name: string, signs: unknown[] }[] = [
+    { name: 'greetings', signs: greetings },
+    { name: 'pronouns', signs: pronouns },
+    { name: 'questions', signs: questions },
+    { name: 'verbs', signs: verbs },
+    { name: 'emotions', signs: emotions },
+    { name: 'desires', signs: desires },
+    { name: 'family', signs: family },
+    { name: 'modifiers', signs: modifiers },
+    { name: 'function-words', signs: functionWords },
+    { name: 'everyday', signs: everyday },
+    { name: 'action-verbs', signs: actionVerbs },
+    { name: 'communication-verbs', signs: communicationVerbs },
+    { name: 'mental-verbs', signs: mentalVerbs },
+    { name: 'perception-verbs', signs: perceptionVerbs },
+    { name: 'state-verbs', signs: stateVerbs },
+    { name: 'place-nouns', signs: placeNouns },
+    { name: 'person-nouns', signs: personNouns },
+    { name: 'object-nouns', signs: objectNouns },
+    { name: 'animal-nouns', signs: animalNouns },
+    { name: 'time-nouns', signs: timeNouns },
+    { name: 'adjectives', signs: adjectives },
+    { name: 'numbers', signs: numbers }
+];
+
+// British Sign Language starter lexicon (src/lexicon/bsl/); other words are fingerspelled
+export const BSL_LEXICON_SOURCES: { name: string, signs: unknown[] }[] = [
+    { name: 'bsl/greetings', signs: bslGreetings },
+    { name: 'bsl/pronouns', signs: bslPronouns },
+    { name: 'bsl/questions', signs: bslQuestions },
+    { name: 'bsl/everyday', signs: bslEveryday }
+];
+
+// Evaluate a curve at a given time (seconds)
+export function evaluateCurve(curve: MotionCurve, time: number): number {
+    if (typeof curve === 'number') return curve;
+
+    let value = curve.base || 0;
+    for (const wave of curve.waves) {
+        const phase = time * wave.freq;
+        switch (wave.fn) {
+            case 'sin':
+                value += Math.sin(phase) * wave.amp;
+                break;
+            case 'cos':
+                value += Math.cos(phase) * wave.amp;
+                break;
+            case 'absSin':
+                value += Math.abs(Math.sin(phase)) * wave.amp;
+                break;
+        }
+    }
+    return value;
+}
+
+// --- Parsing (JSON is untyped, so every field is checked) ---
+
+function parseCurve(raw: any, where: string): MotionCurve {
+    if (typeof raw === 'number') return raw;
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.waves)) {
+        throw new Error(`${where}: expected a number or { base, waves }`);
+    }
+    if (raw.base !== undefined && typeof raw.base !== 'number') {
+        throw new Error(`${where}: base must be a number`);
+    }
+    const waves: Wave[] = raw.waves.map((w: any, i: number) => {
+        if (!w || !['sin', 'cos', 'absSin'].includes(w.fn)) {
+            throw new Error(`${where}.waves[${i}]: fn must be sin, cos or absSin`);
+        }
+        if (typeof w.freq !== 'number' || typeof w.amp !== 'number') {
+            throw new Error(`${where}.waves[${i}]: freq and amp must be numbers`);
+        }
+        return { fn: w.fn, freq: w.freq, amp: w.amp };
+    });
+    return raw.base !== undefined ? { base: raw.base, waves } : { waves };
+}
+
+// A handshape given by name: undefined for per-finger curls, the name if it is known
+function parseShapeName(raw: any, where: string): string | undefined {
+    if (typeof raw !== 'string') return undefined;
+    if (!isHandshapeName(raw)) throw new Error(`${where}: unknown handshape "${raw}"`);
+    return raw;
+}
+
+function parseKeyframe(raw: any, where: string): SignKeyframe {
+    if (!raw || typeof raw !== 'object') throw new Error(`${where}: keyframe must be an object`);
+    if (typeof raw.at !== 'number' || raw.at < 0) throw new Error(`${where}: at must be a number of ms >= 0`);
+
+    const ease = raw.ease === undefined ? 'easeInOut' : raw.ease;
+    if (!EASINGS.includes(ease)) throw new Error(`${where}: ease must be one of ${EASINGS.join(', ')}`);
+
+    const shape = parseShapeName(raw.handshape, where);
+    const handshape: SignKeyframe['handshape'] = shape ? handshapeCurls(HANDSHAPES[shape]) : {};
+    if (!shape) {
+        for (const [finger, curl] of Object.entries(raw.handshape || {})) {
+            if (!FINGER_NAMES.includes(finger as FingerName)) throw new Error(`${where}: unknown finger "${finger}"`);
+            if (typeof curl !== 'number') throw new Error(`${where}.handshape.${finger}: must be a number`);
+            handshape[finger as FingerName] = curl;
+        }
+    }
+
+    const wrist: SignKeyframe['wrist'] = {};
+    for (const [axis, value] of Object.entries(raw.wrist || {})) {
+        if (axis !== 'x' && axis !== 'y' && axis !== 'z') throw new Error(`${where}: unknown wrist axis "${axis}"`);
+        if (typeof value !== 'number') throw new Error(`${where}.wrist.${axis}: must be a number`);
+        wrist[axis] = value;
+    }
+
+    if (raw.location !== undefined && !isSigningLocation(raw.location)) {
+        throw new Error(`${where}: location must be one of ${LOCATION_NAMES.join(', ')}`);
+    }
+
+    return {
+        at: raw.at, ease, handshape, wrist,
+        ...(shape ? { shape } : {}),
+        ...(raw.location !== undefined ? { location: raw.location } : {})
+    };
+}
+
+export function parseSignDefinition(raw: any): SignDefinition {
+    if (!raw || typeof raw !== 'object') throw new Error('Sign definition must be an object');
+    if (typeof raw.gloss !== 'string' || raw.gloss.length === 0) throw new Error('Sign definition is missing a gloss');
+
+    const gloss = raw.gloss.toUpperCase();
+    const where = `Sign ${gloss}`;
+
+    const aliases = raw.aliases === undefined ? [] : raw.aliases;
+    if (!Array.isArray(aliases) || aliases.some((a: any) => typeof a !== 'string')) {
+        throw new Error(`${where}: aliases must be a list of strings`);
+    }
+
+    const hands = raw.hands === undefined ? 'both' : raw.hands;
+    if (!SIGN_HANDS.includes(hands)) throw new Error(`${where}: hands must be one of ${SIGN_HANDS.join(', ')}`);
+
+    let base: HandTrack | undefined;
+    if (raw.base !== undefined) {
+        if (hands === 'one') throw new Error(`${where}: a one-handed sign has no base track`);
+        base = parseHandTrack(raw.base, `${where}.base`);
+    } else if (hands === 'dominant-base') {
+        throw new Error(`${where}: dominant-base signs need a base track`);
+    }
+
+    const duration = raw.duration === undefined ? DEFAULT_SIGN_DURATION : raw.duration;
+    if (typeof duration !== 'number' || duration <= 0) throw new Error(`${where}: duration must be a positive number`);
+
+    if (raw.mouth !== undefined && !MOUTH_SHAPES.includes(raw.mouth)) {
+        throw new Error(`${where}: mouth must be one of ${MOUTH_SHAPES.join(', ')}`);
+    }
+
+    if (raw.hold !== undefined && (typeof raw.hold !== 'number' || raw.hold < 0)) {
+        throw new Error(`${where}: hold must be a number of ms >= 0`);
+    }
+
+    return {
+        gloss,
+        aliases: aliases.map((a: string) => a.toUpperCase()),
+        note: typeof raw.note === 'string' ? raw.note : undefined,
+        hands,
+        duration,
+        ...parseHandTrack(raw, where),
+        ...(base ? { base } : {}),
+        ...(raw.mouth !== undefined ? { mouth: raw.mouth } : {}),
+        ...(raw.hold !== undefined ? { hold: raw.hold } : {})
+    };
+}
+
+// Handshape, wrist, location and keyframes of one hand
+function parseHandTrack(raw: any, where: string): HandTrack {
+    if (!raw || typeof raw !== 'object') throw new Error(`${where}: must be an object`);
+
+    const shape = parseShapeName(raw.handshape, where);
+    const handshape: HandTrack['handshape'] = shape ? handshapeCurls(HANDSHAPES[shape]) : {};
+    if (!shape) {
+        for (const [finger, curve] of Object.entries(raw.handshape || {})) {
+            if (!FINGER_NAMES.includes(finger as FingerName)) throw new Error(`${where}: unknown finger "${finger}"`);
+            handshape[finger as FingerName] = parseCurve(curve, `${where}.handshape.${finger}`);
+        }
+    }
+
+    let keyframes: SignKeyframe[] | undefined;
+    if (raw.keyframes !== undefined) {
+        if (!Array.isArray(raw.keyframes) || raw.keyframes.length === 0) {
+            throw new Error(`${where}: keyframes must be a non-empty list`);
+        }
+        const parsed: SignKeyframe[] = raw.keyframes.map((k: any, i: number) => parseKeyframe(k, `${where}.keyframes[${i}]`));
+        for (let i = 1; i < parsed.length; i++) {
+            if (parsed[i].at <= parsed[i - 1].at) throw new Error(`${where}.keyframes[${i}]: at must increase`);
+        }
+        keyframes = parsed;
+    }
+
+    const location = raw.location === undefined ? 'neutral' : raw.location;
+    if (!isSigningLocation(location)) throw new Error(`${where}: location must be one of ${LOCATION_NAMES.join(', ')}`);
+
+    const wrist = raw.wrist || {};
+    return {
+        handshape,
+        wrist: {
+            x: parseCurve(wrist.x ?? 0, `${where}.wrist.x`),
+            y: parseCurve(wrist.y ?? 0, `${where}.wrist.y`),
+            z: parseCurve(wrist.z ?? 0, `${where}.wrist.z`)
+        },
+        location,
+        ...(shape ? { shape } : {}),
+        ...(keyframes ? { keyframes } : {})
+    };
+}
+
+// --- Registry ---
+
+export class SignRegistry {
+    private signs = new Map<string, SignDefinition>();
+
+    // Register a sign under its gloss and aliases.
+    // Without replace, the first definition of a gloss wins (same as the old switch);
+    // with replace, later definitions override (used for runtime overrides).
+    register(sign: SignDefinition, replace: boolean = false) {
+        for (const key of [sign.gloss, ...sign.aliases]) {
+            if (!replace && this.signs.has(key)) continue;
+            this.signs.set(key, sign);
+        }
+    }
+
+    get(gloss: string): SignDefinition | undefined {
+        return this.signs.get(gloss.toUpperCase());
+    }
+
+    has(gloss: string): boolean {
+        return this.signs.has(gloss.toUpperCase());
+    }
+
+    // Every gloss (including aliases) that has a sign
+    glosses(): string[] {
+        return Array.from(this.signs.keys());
+    }
+
+    // Fetch a JSON array of sign definitions and register them, replacing existing ones
+    async loadFromUrl(url: string): Promise<number> {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Failed to load lexicon ${url}: ${response.status}`);
+
+        const data = await response.json();
+        if (!Array.isArray(data)) throw new Error(`Lexicon ${url} must be a JSON array`);
+
+        data.forEach(raw => this.register(parseSignDefinition(raw), true));
+        console.log(`[SignLexicon] Loaded ${data.length} signs from ${url}`);
+        return data.length;
+    }
+}
+
+// A registry with the signs of the given lexicon files
+export function createRegistry(sources: { name: string, signs: unknown[] }[]): SignRegistry {
+    const registry = new SignRegistry();
+    for (const source of sources) {
+        source.signs.forEach(raw => registry.register(parseSignDefinition(raw)));
+    }
+    return registry;
+}
+
+// Default registry with the bundled (ASL) lexicon
+export const signRegistry = createRegistry(LEXICON_SOURCES);
+export const bslSignRegistry = createRegistry(BSL_LEXICON_SOURCES);
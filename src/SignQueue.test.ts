@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { ManualClock } from './AnimationClock';
+import { SignQueue, unsignedTokens } from './SignQueue';
+import { englishToASLGloss } from './ASLGloss';
+
+const STEP_SECONDS = 0.3;
+
+function tokens(sentence: string) {
+    return englishToASLGloss(sentence).tokens;
+}
+
+// Play a queue like the avatar does, a step every STEP_SECONDS, running each event when
+// the clock reaches its time. Returns what was signed, letters for fingerspelling.
+function replay(queue: SignQueue, events: [number, () => void][], seconds: number): string[] {
+    const clock = new ManualClock(0.05);
+    const signed: string[] = [];
+    let busyUntil = 0;
+    while (clock.now < seconds) {
+        clock.tick();
+        while (events.length > 0 && clock.now >= events[0][0] - 1e-9) events.shift()![1]();
+        if (clock.now >= busyUntil && queue.length > 0) {
+            const step = queue.next()!;
+            signed.push(step.letter || step.token.gloss);
+            busyUntil = clock.now + STEP_SECONDS;
+        }
+    }
+    return signed;
+}
+
+describe('SignQueue', () => {
+    it('signs interim results once two agree, then the rest of the final one', () => {
+        const queue = new SignQueue();
+        const signed = replay(queue, [
+            [0.1, () => queue.updateLive(tokens('where'))],
+            [0.3, () => queue.updateLive(tokens('where do you'))],
+            [0.5, () => queue.finishLive(tokens('where do you live'))]
+        ], 3);
+        expect(signed).toEqual(['YOU', 'LIVE', 'WHERE']);
+    });
+
+    it('does not sign a token twice when the final gloss reorders it', () => {
+        const queue = new SignQueue();
+        const signed = replay(queue, [
+            [0.1, () => queue.updateLive(tokens('I'))],
+            [0.2, () => queue.updateLive(tokens('I like'))],
+            // I has started; the object moves to the front of the final gloss
+            [0.4, () => queue.finishLive(tokens('I like cookies'))]
+        ], 3);
+        expect(tokens('I like cookies').map(t => t.gloss)).toEqual(['COOKIE', 'I', 'LIKE']);
+        expect(signed).toEqual(['I', 'COOKIE', 'LIKE']);
+    });
+
+    it('replaces interim signs that have not started', () => {
+        const queue = new SignQueue();
+        const signed = replay(queue, [
+            [0.1, () => queue.updateLive(tokens('I want'))],
+            [0.15, () => queue.updateLive(tokens('I want to'))],
+            // WANT was queued behind I but hasn't started: the final result drops it
+            [0.2, () => queue.finishLive(tokens('I went home'))]
+        ], 3);
+        expect(signed[0]).toBe('I');
+        expect(signed).not.toContain('WANT');
+    });
+
+    it('keeps what has started when the live utterance is cancelled', () => {
+        const queue = new SignQueue();
+        let kept: string[] = [];
+        const signed = replay(queue, [
+            [0.1, () => queue.updateLive(tokens('I like'))],
+            [0.2, () => queue.updateLive(tokens('I like cookies'))],
+            [0.5, () => kept = queue.cancelLive().map(t => t.gloss)]
+        ], 3);
+        expect(kept).toEqual(signed);
+        expect(queue.length).toBe(0);
+    });
+});
+
+describe('confirming a cancelled utterance', () => {
+    // What main.ts does: cancel the live utterance, then queue the confirmed text less what
+    // was signed (RobotAvatar.triggerConfirmed)
+    function confirmAfter(interim: string[], confirmed: string): string[] {
+        const queue = new SignQueue();
+        const events: [number, () => void][] = interim.map((text, i) => [0.1 * (i + 1), () => queue.updateLive(tokens(text))]);
+        let signedBefore: ReturnType<SignQueue['cancelLive']> = [];
+        events.push([0.5, () => {
+            signedBefore = queue.cancelLive();
+            queue.push(unsignedTokens(tokens(confirmed), signedBefore));
+        }]);
+        return replay(queue, events, 3);
+    }
+
+    it('signs each token once even when the confirmed gloss reorders it', () => {
+        expect(confirmAfter(['I', 'I like'], 'I like cookies')).toEqual(['I', 'COOKIE', 'LIKE']);
+    });
+
+    it('signs an edited transcript without what was already signed', () => {
+        expect(confirmAfter(['I', 'I like'], 'I love tea')).toEqual(['I', 'T', 'E', 'A', 'LOVE']);
+    });
+});
+
+describe('unsignedTokens', () => {
+    it('leaves out one token for each signed one, wherever it is', () => {
+        const signed = tokens('I');
+        expect(unsignedTokens(tokens('I like cookies'), signed).map(t => t.gloss)).toEqual(['COOKIE', 'LIKE']);
+        expect(unsignedTokens(tokens('I see I'), signed).map(t => t.gloss)).toEqual(['SEE', 'I']);
+    });
+});
@@ -0,0 +1,130 @@
+// Sign Queue
+// The steps waiting to be signed by the avatar. Finished sentences are queued whole;
+// an utterance still being spoken (streaming speech) is "live": its steps are replaced
+// as interim transcripts come in, except those that have started playing.
+// Topic-comment order can move tokens between interim results ("I" -> COOKIE I LIKE),
+// so what has been signed is tracked by token, not by position in the gloss.
+
+import type { GlossToken } from './GlossAST';
+
+// One queued animation: a gloss token, or one letter of a fingerspelled token
+export interface SignStep {
+    token: GlossToken;
+    letter?: string;   // Fingerspelling: the letter to form
+    isLast: boolean;   // Last step of its sentence
+    live?: boolean;    // Part of the utterance still being spoken (revisable until it starts)
+}
+
+// An utterance being signed while it is still being spoken
+interface LiveUtterance {
+    tokens: GlossToken[]; // Gloss of the latest interim transcript
+    signed: GlossToken[]; // Tokens that have started playing and can no longer be revised
+}
+
+// Interim tokens count as stable once two results in a row agree on them
+export function sameToken(a: GlossToken, b: GlossToken): boolean {
+    return a.type === b.type && a.gloss === b.gloss;
+}
+
+// The tokens still to sign once `signed` have been: each signed token accounts for one
+// equal token, wherever it now is ("I" signed, COOKIE I LIKE leaves COOKIE LIKE)
+export function unsignedTokens(tokens: GlossToken[], signed: GlossToken[]): GlossToken[] {
+    const left = [...signed];
+    return tokens.filter(token => {
+        const i = left.findIndex(s => sameToken(s, token));
+        if (i < 0) return true;
+        left.splice(i, 1);
+        return false;
+    });
+}
+
+export class SignQueue {
+    steps: SignStep[] = [];
+    private live: LiveUtterance | null = null;
+
+    get length(): number {
+        return this.steps.length;
+    }
+
+    // The step after the one playing, if any
+    peek(): SignStep | undefined {
+        return this.steps[0];
+    }
+
+    // Take the next step to play; a live token can no longer be revised once it starts
+    next(): SignStep | undefined {
+        const step = this.steps.shift();
+        if (step && step.live && this.live && !this.live.signed.includes(step.token)) {
+            this.live.signed.push(step.token);
+        }
+        return step;
+    }
+
+    // Queue a whole sentence
+    push(tokens: GlossToken[]) {
+        const steps = this.stepsFor(tokens);
+        if (steps.length > 0) steps[steps.length - 1].isLast = true;
+        this.steps.push(...steps);
+    }
+
+    // Streaming speech: the gloss of an interim transcript. Tokens the last two interim
+    // results agree on are queued (all but the newest token, which may still change).
+    updateLive(tokens: GlossToken[]) {
+        const previous = this.live ? this.live.tokens : [];
+        let stable = 0;
+        while (stable < tokens.length - 1 && stable < previous.length && sameToken(previous[stable], tokens[stable])) {
+            stable++;
+        }
+        this.reviseLive(tokens, stable);
+    }
+
+    // The final gloss of a streamed utterance replaces whatever of it hasn't started yet
+    finishLive(tokens: GlossToken[]) {
+        const queued = this.reviseLive(tokens, tokens.length);
+        if (queued.length > 0) queued[queued.length - 1].isLast = true;
+        this.endLive();
+    }
+
+    // Drop what hasn't started of a streamed utterance. Returns the tokens that have started.
+    cancelLive(): GlossToken[] {
+        if (!this.live) return [];
+        const signed = this.live.signed;
+        this.reviseLive([], 0);
+        this.endLive();
+        return signed;
+    }
+
+    // Replace the live utterance's unstarted steps with its first `count` tokens, less the
+    // ones already signed. Started tokens keep playing: the sign on screen is never cut
+    // off, and neither is the rest of a word being fingerspelled. Returns the steps queued.
+    private reviseLive(tokens: GlossToken[], count: number): SignStep[] {
+        const signed = this.live ? this.live.signed : [];
+        this.steps = this.steps.filter(step => !step.live || signed.includes(step.token));
+
+        const steps = this.stepsFor(unsignedTokens(tokens.slice(0, count), signed), true);
+        this.steps.push(...steps);
+
+        this.live = { tokens, signed };
+        return steps;
+    }
+
+    // Everything queued now is final
+    private endLive() {
+        this.steps.forEach(step => delete step.live);
+        this.live = null;
+    }
+
+    // Steps for tokens; fingerspelled words take one step per letter
+    private stepsFor(tokens: GlossToken[], live?: boolean): SignStep[] {
+        const steps: SignStep[] = [];
+        for (const token of tokens) {
+            const marker = live ? { live } : {};
+            if (token.type === 'fingerspell') {
+                token.letters.forEach(letter => steps.push({ token, letter, isLast: false, ...marker }));
+            } else {
+                steps.push({ token, isLast: false, ...marker });
+            }
+        }
+        return steps;
+    }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fingerpose from 'fingerpose';
+import { SignRecognizer, RecordedLandmarkSource, wordsToSentence } from './SignRecognizer';
+import type { HandLandmarks, LandmarkSource } from './SignRecognizer';
+import { ASL_ALPHABET } from './ASLAlphabet';
+import { FINGER_NAMES } from './Handshapes';
+import type { FingerName } from './Handshapes';
+import handposeBay from './fixtures/handpose-bay.json';
+
+// Where each finger leaves the palm, wrist at the origin and the hand pointing up
+const KNUCKLES: { [key in FingerName]: [number, number] } = {
+    thumb: [3, 2],
+    index: [2, 10],
+    middle: [0, 10.5],
+    ring: [-2, 10],
+    pinky: [-4, 9]
+};
+
+// Bend at the middle joint for an ASL_ALPHABET curl: nearly straight (fingerpose reads an
+// exactly straight finger as a full curl), right angle, folded back
+function bendFor(curl: number): number {
+    if (curl < 0.4) return 0.25;
+    if (curl < 1.0) return Math.PI / 2;
+    return Math.PI * 0.85;
+}
+
+// Handpose-style landmarks for a letter: 4 points per finger from the knuckle to the tip,
+// the last two bent by the letter's curl
+function landmarksFor(letter: string): HandLandmarks {
+    const pose = ASL_ALPHABET[letter];
+    const points: HandLandmarks = [[0, 0, 0]];
+    for (const finger of FINGER_NAMES) {
+        const [kx, ky] = KNUCKLES[finger];
+        const length = Math.hypot(kx, ky);
+        const [dx, dy] = [kx / length, ky / length];
+        const bend = bendFor(pose[finger]);
+        const [bx, by] = [dx * Math.cos(bend) - dy * Math.sin(bend), dx * Math.sin(bend) + dy * Math.cos(bend)];
+
+        const middle: [number, number] = [kx + dx * 4, ky + dy * 4];
+        points.push([kx, -ky, 0]);
+        points.push([middle[0], -middle[1], 0]);
+        points.push([middle[0] + bx * 2, -(middle[1] + by * 2), 0]);
+        points.push([middle[0] + bx * 4, -(middle[1] + by * 4), 0]);
+    }
+    return points;
+}
+
+// A handshape held for a number of frames
+function hold(letter: string, frames: number): HandLandmarks[] {
+    return Array.from({ length: frames }, () => landmarksFor(letter));
+}
+
+function gap(frames: number): null[] {
+    return Array.from({ length: frames }, () => null);
+}
+
+// A source that takes until release() to start, like a camera asking for permission,
+// and counts the frames read from it
+class SlowSource implements LandmarkSource {
+    finished = false;
+    starts = 0;
+    stops = 0;
+    frames = 0;
+    mostReading = 0; // Frame loops reading at the same time
+    private reading = 0;
+    private pending: (() => void)[] = [];
+
+    start(): Promise<void> {
+        this.starts++;
+        return new Promise(resolve => this.pending.push(resolve));
+    }
+
+    release() {
+        this.pending.forEach(resolve => resolve());
+        this.pending = [];
+    }
+
+    stop() {
+        this.stops++;
+    }
+
+    async nextFrame(): Promise<HandLandmarks | null> {
+        this.frames++;
+        this.reading++;
+        this.mostReading = Math.max(this.mostReading, this.reading);
+        await Promise.resolve();
+        this.reading--;
+        if (this.frames >= 5) this.finished = true;
+        return null;
+    }
+}
+
+beforeAll(() => {
+    (globalThis as any).fp = fingerpose;
+});
+
+describe('SignRecognizer', () => {
+    it('emits a letter once it has been held for stableFrames', () => {
+        const recognizer = new SignRecognizer(new RecordedLandmarkSource([]), { stableFrames: 3 });
+        const frames = hold('b', 3);
+        expect(frames.slice(0, 2).map(f => recognizer.processLandmarks(f))).toEqual([null, null]);
+        expect(recognizer.processLandmarks(frames[2])).toBe('B');
+    });
+
+    it('turns recorded frames into letters, words and sentences', async () => {
+        const frames = [
+            ...hold('b', 6), ...gap(2), ...hold('l', 6), ...gap(20),
+            ...hold('y', 6), ...gap(50)
+        ];
+        const recognizer = new SignRecognizer(new RecordedLandmarkSource(frames), { frameInterval: 0 });
+        const letters: string[] = [];
+        const words: string[] = [];
+        const sentences: string[][] = [];
+        recognizer.onLetter = letter => letters.push(letter);
+        recognizer.onWord = word => words.push(word);
+        recognizer.onSentence = sentence => sentences.push(sentence);
+
+        await recognizer.start();
+
+        expect(letters).toEqual(['B', 'L', 'Y']);
+        expect(words).toEqual(['BL', 'Y']);
+        expect(sentences).toEqual([['BL', 'Y']]);
+        expect(recognizer.isRunning).toBe(false);
+    });
+
+    it('runs from the first start, so a second one while starting does nothing', async () => {
+        const source = new SlowSource();
+        const recognizer = new SignRecognizer(source, { frameInterval: 0 });
+        const first = recognizer.start();
+        expect(recognizer.isRunning).toBe(true);
+        const second = recognizer.start();
+
+        source.release();
+        await Promise.all([first, second]);
+        expect(source.starts).toBe(1);
+        expect(source.frames).toBe(5);
+    });
+
+    it('cancels a pending start when stopped', async () => {
+        const source = new SlowSource();
+        const recognizer = new SignRecognizer(source, { frameInterval: 0 });
+        const starting = recognizer.start();
+        recognizer.stop();
+
+        source.release();
+        await starting;
+        expect(recognizer.isRunning).toBe(false);
+        expect(source.stops).toBe(1);
+        expect(source.frames).toBe(0);
+    });
+
+    it('reads frames in one loop after a quick stop and start', async () => {
+        const source = new SlowSource();
+        const recognizer = new SignRecognizer(source, { frameInterval: 0 });
+        const first = recognizer.start();
+        recognizer.stop();
+        const second = recognizer.start();
+
+        source.release();
+        await Promise.all([first, second]);
+        expect(source.starts).toBe(2);
+        expect(source.mostReading).toBe(1);
+        expect(recognizer.isRunning).toBe(false);
+    });
+
+    // Handpose output for a hand spelling B-A-Y: pixel coordinates in a 640x480 video with
+    // depth, a tilted and turned hand that drifts and jitters, and the in-between shapes
+    // it passes through from one letter to the next
+    it('reads a word from handpose landmarks', async () => {
+        const recognizer = new SignRecognizer(new RecordedLandmarkSource(handposeBay), { frameInterval: 0 });
+        const letters: string[] = [];
+        const words: string[] = [];
+        recognizer.onLetter = letter => letters.push(letter);
+        recognizer.onWord = word => words.push(word);
+
+        await recognizer.start();
+
+        expect(letters).toEqual(['B', 'A', 'Y']);
+        expect(words).toEqual(['BAY']);
+    });
+
+    it('needs the hand to change before a letter repeats', () => {
+        const recognizer = new SignRecognizer(new RecordedLandmarkSource([]), { stableFrames: 2 });
+        const emitted = hold('l', 8).map(f => recognizer.processLandmarks(f)).filter(l => l);
+        expect(emitted).toEqual(['L']);
+    });
+});
+
+describe('wordsToSentence', () => {
+    it('reads words as a sentence', () => {
+        expect(wordsToSentence(['MY', 'NAME', 'ANA'])).toBe('My name ana.');
+        expect(wordsToSentence(['I', 'LIKE', 'TEA'])).toBe('I like tea.');
+    });
+
+    it('ends questions with a question mark', () => {
+        expect(wordsToSentence(['YOUR', 'NAME', 'WHAT'])).toBe('Your name what?');
+        expect(wordsToSentence(['WHERE', 'YOU', 'LIVE'])).toBe('Where you live?');
+    });
+});
@@ -0,0 +1,321 @@
+/// <reference path="./types/globals.d.ts" />
+// Sign Recognizer
+// Sign-to-text: runs handpose on camera frames and classifies static fingerspelling
+// handshapes with fingerpose gestures built from the ASL_ALPHABET curl table.
+// Pauses with no hand in view end words, and longer ones end sentences (for reading aloud).
+
+import { ASL_ALPHABET } from './ASLAlphabet';
+import type { FingerName } from './Handshapes';
+
+// 21 [x, y, z] points in handpose landmark order
+export type HandLandmarks = number[][];
+
+// Where landmark frames come from.
+// The webcam source runs handpose; recorded sources replay fixtures for offline testing.
+export interface LandmarkSource {
+    // True once the source has no more frames (recorded sources only)
+    readonly finished: boolean;
+    start(): Promise<void>;
+    stop(): void;
+    // Landmarks of the first detected hand, or null when no hand is in view
+    nextFrame(): Promise<HandLandmarks | null>;
+}
+
+// Live webcam frames through the handpose model (loaded from the CDN in index.html)
+export class WebcamLandmarkSource implements LandmarkSource {
+    readonly finished = false;
+    video: HTMLVideoElement;
+    private model: any = null;
+    private modelLoad: Promise<any> | null = null;
+    private stream: MediaStream | null = null;
+    private starts = 0; // Counts start() and stop() calls, so a stopped start can tell
+
+    constructor(video: HTMLVideoElement) {
+        this.video = video;
+    }
+
+    async start() {
+        const start = ++this.starts;
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 } });
+        // Stopped while the camera was opening: release it
+        if (start !== this.starts) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        this.stream = stream;
+        this.video.srcObject = stream;
+        await this.video.play();
+
+        // A restart while the model loads waits for the same load
+        if (!this.modelLoad) {
+            console.log("[SignRecognizer] Loading handpose model...");
+            this.modelLoad = handpose.load().then((model: any) => {
+                console.log("[SignRecognizer] Handpose model loaded");
+                return model;
+            });
+        }
+        try {
+            this.model = await this.modelLoad;
+        } catch (err) {
+            this.modelLoad = null;
+            throw err;
+        }
+    }
+
+    stop() {
+        this.starts++;
+        if (this.stream) {
+            this.stream.getTracks().forEach(track => track.stop());
+            this.stream = null;
+        }
+        this.video.srcObject = null;
+    }
+
+    async nextFrame(): Promise<HandLandmarks | null> {
+        if (!this.model || !this.stream) return null;
+        const predictions = await this.model.estimateHands(this.video);
+        return predictions.length > 0 ? predictions[0].landmarks : null;
+    }
+}
+
+// Replays recorded landmark frames (null entries = no hand in view)
+export class RecordedLandmarkSource implements LandmarkSource {
+    private frames: (HandLandmarks | null)[];
+    private index = 0;
+
+    constructor(frames: (HandLandmarks | null)[]) {
+        this.frames = frames;
+    }
+
+    get finished() {
+        return this.index >= this.frames.length;
+    }
+
+    async start() {
+        this.index = 0;
+    }
+
+    stop() {
+        this.index = this.frames.length;
+    }
+
+    async nextFrame(): Promise<HandLandmarks | null> {
+        if (this.finished) return null;
+        return this.frames[this.index++];
+    }
+}
+
+// J and Z need a motion, so they can't be recognized from a single static frame
+const DYNAMIC_LETTERS = new Set(['j', 'z']);
+
+// Map an ASL_ALPHABET curl (0.0 open .. 1.5 closed) to a fingerpose curl class
+function curlClass(curl: number) {
+    if (curl < 0.4) return fp.FingerCurl.NoCurl;
+    if (curl < 1.0) return fp.FingerCurl.HalfCurl;
+    return fp.FingerCurl.FullCurl;
+}
+
+// Build one fingerpose GestureDescription per static letter of ASL_ALPHABET.
+// Letters that share a curl pattern (e.g. U and V) can't be told apart by curls alone;
+// the estimator returns whichever scores highest.
+export function buildAlphabetGestures(): any[] {
+    const fingers: { [key: string]: any } = {
+        thumb: fp.Finger.Thumb,
+        index: fp.Finger.Index,
+        middle: fp.Finger.Middle,
+        ring: fp.Finger.Ring,
+        pinky: fp.Finger.Pinky
+    };
+
+    const gestures: any[] = [];
+    for (const [letter, pose] of Object.entries(ASL_ALPHABET)) {
+        if (!/^[a-z]$/.test(letter) || DYNAMIC_LETTERS.has(letter)) continue;
+
+        const gesture = new fp.GestureDescription(letter);
+        for (const [name, finger] of Object.entries(fingers)) {
+            const curl = curlClass(pose[name as FingerName]);
+            gesture.addCurl(finger, curl, 1.0);
+
+            // A thumb folded across the palm usually reads as half curled
+            if (name === 'thumb' && curl === fp.FingerCurl.FullCurl) {
+                gesture.addCurl(finger, fp.FingerCurl.HalfCurl, 0.9);
+            }
+        }
+        gestures.push(gesture);
+    }
+    return gestures;
+}
+
+export interface SignRecognizerOptions {
+    minScore: number;      // Minimum fingerpose score (0-10) to accept a letter
+    stableFrames: number;  // Consecutive frames a letter must hold before it is emitted
+    wordGapFrames: number; // Frames without a hand that end the current word
+    sentenceGapFrames: number; // Frames without a hand that end the current sentence
+    frameInterval: number; // ms to wait between frames in the live loop
+}
+
+const DEFAULT_OPTIONS: SignRecognizerOptions = {
+    minScore: 8.5,
+    stableFrames: 5,
+    wordGapFrames: 15,
+    sentenceGapFrames: 40,
+    frameInterval: 50
+};
+
+export class SignRecognizer {
+    source: LandmarkSource;
+    options: SignRecognizerOptions;
+    isRunning: boolean = false;
+    private runs = 0; // Counts start() and stop() calls; a loop from an earlier run ends
+
+    // Callbacks
+    onLetter: ((letter: string) => void) | null = null;
+    onWord: ((word: string) => void) | null = null;
+    onSentence: ((words: string[]) => void) | null = null;
+
+    private estimator: any;
+
+    // Debounce State
+    private candidate: string | null = null;
+    private candidateFrames = 0;
+    private lastEmitted: string | null = null;
+    private emptyFrames = 0;
+    private currentWord = '';
+    private sentenceWords: string[] = [];
+
+    constructor(source: LandmarkSource, options: Partial<SignRecognizerOptions> = {}) {
+        this.source = source;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.estimator = new fp.GestureEstimator(buildAlphabetGestures());
+    }
+
+    async start() {
+        if (this.isRunning) return;
+        // Running from the first click, so a second click while the camera and model
+        // load stops it instead of starting it twice
+        this.isRunning = true;
+        const run = ++this.runs;
+        try {
+            await this.source.start();
+        } catch (err) {
+            if (run !== this.runs) return; // Stopped while starting; the error is moot
+            this.isRunning = false;
+            throw err;
+        }
+        if (run !== this.runs) return;
+        console.log("[SignRecognizer] Started");
+
+        // A stop() (and maybe a new start()) ends this loop, so two never run at once
+        while (run === this.runs && !this.source.finished) {
+            await this.processFrame();
+            if (this.options.frameInterval > 0) {
+                await new Promise(resolve => setTimeout(resolve, this.options.frameInterval));
+            }
+        }
+        if (run !== this.runs) return;
+
+        // Flush a sentence left open when a recorded source runs out
+        this.endSentence();
+        this.isRunning = false;
+    }
+
+    stop() {
+        this.runs++;
+        this.isRunning = false;
+        this.source.stop();
+        this.endSentence();
+        console.log("[SignRecognizer] Stopped");
+    }
+
+    // Read and classify one frame. Returns the letter emitted on this frame, if any.
+    async processFrame(): Promise<string | null> {
+        const landmarks = await this.source.nextFrame();
+        return this.processLandmarks(landmarks);
+    }
+
+    // Classify landmarks without touching the source (useful for fixtures)
+    processLandmarks(landmarks: HandLandmarks | null): string | null {
+        if (!landmarks) {
+            this.resetCandidate();
+            this.lastEmitted = null;
+            this.emptyFrames++;
+            if (this.emptyFrames >= this.options.wordGapFrames) this.endWord();
+            if (this.emptyFrames >= this.options.sentenceGapFrames) this.endSentence();
+            return null;
+        }
+        this.emptyFrames = 0;
+
+        const letter = this.classify(landmarks);
+        if (!letter) {
+            this.resetCandidate();
+            return null;
+        }
+
+        if (letter === this.candidate) {
+            this.candidateFrames++;
+        } else {
+            this.candidate = letter;
+            this.candidateFrames = 1;
+        }
+
+        // Emit once per held handshape; the hand must change before the same letter repeats
+        if (this.candidateFrames === this.options.stableFrames && letter !== this.lastEmitted) {
+            this.lastEmitted = letter;
+            this.currentWord += letter;
+            if (this.onLetter) this.onLetter(letter);
+            return letter;
+        }
+        return null;
+    }
+
+    // Best-scoring letter for a single frame, or null below minScore
+    classify(landmarks: HandLandmarks): string | null {
+        const estimate = this.estimator.estimate(landmarks, this.options.minScore);
+        let best: string | null = null;
+        let bestScore = -Infinity;
+
+        for (const gesture of estimate.gestures) {
+            // fingerpose 0.1.0 reports "score"; older builds used "confidence"
+            const score = gesture.score ?? gesture.confidence;
+            if (score > bestScore) {
+                bestScore = score;
+                best = gesture.name;
+            }
+        }
+        return best ? best.toUpperCase() : null;
+    }
+
+    private resetCandidate() {
+        this.candidate = null;
+        this.candidateFrames = 0;
+    }
+
+    private endWord() {
+        if (this.currentWord.length === 0) return;
+        const word = this.currentWord;
+        this.currentWord = '';
+        this.sentenceWords.push(word);
+        if (this.onWord) this.onWord(word);
+    }
+
+    private endSentence() {
+        this.endWord();
+        if (this.sentenceWords.length === 0) return;
+        const words = this.sentenceWords;
+        this.sentenceWords = [];
+        if (this.onSentence) this.onSentence(words);
+    }
+}
+
+// Question words; a signed question has one at the start or (as in ASL) the end
+const QUESTION_WORDS = new Set(['WHO', 'WHAT', 'WHERE', 'WHEN', 'WHY', 'HOW', 'WHICH']);
+
+// Recognized words as an English sentence to read out: "MY NAME ANA" -> "My name ana."
+export function wordsToSentence(words: string[]): string {
+    if (words.length === 0) return '';
+    const text = words.map(w => w === 'I' ? w : w.toLowerCase()).join(' ');
+    const first = words[0].toUpperCase();
+    const last = words[words.length - 1].toUpperCase();
+    const isQuestion = QUESTION_WORDS.has(first) || QUESTION_WORDS.has(last);
+    return text.charAt(0).toUpperCase() + text.slice(1) + (isQuestion ? '?' : '.');
+}
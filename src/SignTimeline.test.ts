@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ManualClock, smoothDamp } from './AnimationClock';
+import { getSignTimeline, sampleTimeline } from './SignTimeline';
+import { parseSignDefinition } from './SignLexicon';
+import { SIGNING_LOCATIONS } from './SigningSpace';
+
+// A keyframe sign: the wrist turns from 0 to 1 over 400 ms while moving chest -> chin
+const NOD = parseSignDefinition({
+    gloss: 'TEST-NOD',
+    hands: 'one',
+    keyframes: [
+        { at: 0, location: 'chest', handshape: 'open-B', wrist: { x: 0, y: 0, z: 0 } },
+        { at: 400, location: 'chin', wrist: { x: 1 }, ease: 'linear' }
+    ],
+    hold: 200
+});
+
+describe('ManualClock', () => {
+    it('advances a fixed step per tick', () => {
+        const clock = new ManualClock(0.25);
+        clock.tick();
+        clock.tick();
+        expect(clock.now).toBe(0.5);
+        expect(clock.delta).toBe(0.25);
+
+        clock.advance(1);
+        expect(clock.now).toBe(1.5);
+        expect(clock.delta).toBe(1);
+    });
+});
+
+describe('SignTimeline', () => {
+    const timeline = getSignTimeline(NOD);
+
+    it('times the onset, movement and hold', () => {
+        expect(timeline.movement).toBeCloseTo(0.4);
+        expect(timeline.hold).toBeCloseTo(0.2);
+        expect(timeline.length).toBeCloseTo(timeline.onset + 0.6);
+    });
+
+    it('reaches exact poses when stepped with a ManualClock', () => {
+        const clock = new ManualClock(0.02);
+        const poses = [];
+        while (clock.now < timeline.length) {
+            clock.tick();
+            poses.push({ at: clock.now, pose: sampleTimeline(timeline, clock.now) });
+        }
+
+        // Halfway through the movement the linear keyframe is exactly halfway
+        const half = poses.find(p => Math.abs(p.at - (timeline.onset + 0.2)) < 1e-6)!;
+        expect(half.pose.wrist.x).toBeCloseTo(0.5);
+        expect(half.pose.position.y).toBeCloseTo((SIGNING_LOCATIONS.chest.y + SIGNING_LOCATIONS.chin.y) / 2);
+
+        // Holds the last keyframe to the end
+        const last = poses[poses.length - 1].pose;
+        expect(last.wrist.x).toBe(1);
+        expect(last.position).toEqual(SIGNING_LOCATIONS.chin);
+    });
+
+    it('gives the same pose however the clock got there', () => {
+        const fine = new ManualClock(1 / 120);
+        const coarse = new ManualClock(1 / 30);
+        for (let i = 0; i < 36; i++) fine.tick();
+        for (let i = 0; i < 9; i++) coarse.tick();
+        expect(fine.now).toBeCloseTo(coarse.now);
+        expect(sampleTimeline(timeline, fine.now).wrist.x).toBeCloseTo(sampleTimeline(timeline, coarse.now).wrist.x);
+    });
+});
+
+describe('smoothDamp', () => {
+    // Follow a target for a second at the clock's frame rate
+    function follow(clock: ManualClock, target: number) {
+        let value = 0;
+        let velocity = 0;
+        const values: number[] = [];
+        while (clock.now < 1 - 1e-9) {
+            clock.tick();
+            const next = smoothDamp(value, target, velocity, 0.15, clock.delta);
+            value = next.value;
+            velocity = next.velocity;
+            values.push(value);
+        }
+        return values;
+    }
+
+    it('approaches the target without overshooting', () => {
+        const values = follow(new ManualClock(1 / 60), 1);
+        expect(values.every(v => v <= 1)).toBe(true);
+        expect(values[values.length - 1]).toBeCloseTo(1, 2);
+    });
+
+    it('ends up in the same place at any frame rate', () => {
+        const at60 = follow(new ManualClock(1 / 60), 1);
+        const at20 = follow(new ManualClock(1 / 20), 1);
+        expect(at20[at20.length - 1]).toBeCloseTo(at60[at60.length - 1], 2);
+    });
+});
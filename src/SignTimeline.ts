@@ -0,0 +1,205 @@
+// Sign Timeline
+// Plays a sign as timed keyframes instead of an endless oscillation. Every sign has:
+// - onset:    the hand travels into the first keyframe
+// - movement: the keyframes, each eased in from the one before
+// - hold:     the last keyframe is held so the sign reads as finished
+// - release:  the transition out, made by whatever plays next (the next sign or IDLE)
+// Signs can list keyframes in the lexicon; curve-based signs are compiled into keyframes
+// that stop where the motion is back at rest instead of wherever a fixed duration cut it.
+
+import { evaluateCurve } from './SignLexicon';
+import type { MotionCurve, SignDefinition, HandTrack, HandRole, Easing } from './SignLexicon';
+import { FINGER_NAMES, HANDSHAPES, blendHandshapes, handshapeCurls } from './Handshapes';
+import type { FingerName, Handshape } from './Handshapes';
+import { SIGNING_LOCATIONS } from './SigningSpace';
+import type { Position } from './SigningSpace';
+
+// Phase lengths (seconds)
+const ONSET = 0.12;
+const DEFAULT_HOLD = 0.15;
+
+// Sample spacing when compiling curves (seconds)
+const SAMPLE_STEP = 0.05;
+
+// Hand targets at one moment. Fingers left out keep their previous curl.
+export interface HandPose {
+    position: Position; // Wrist position in signing space (right hand)
+    wrist: { x: number, y: number, z: number };
+    fingers: Partial<{ [key in FingerName]: number }>;
+    shape?: Handshape;  // Full articulation when the pose is a named handshape
+}
+
+export interface TimelineKeyframe {
+    at: number;      // Seconds from the start of the sign
+    pose: HandPose;
+    ease: Easing;    // How the hand arrives at this keyframe
+}
+
+export interface SignTimeline {
+    keyframes: TimelineKeyframe[];
+    onset: number;    // Seconds
+    movement: number;
+    hold: number;
+    length: number;   // onset + movement + hold
+}
+
+export function ease(type: Easing, t: number): number {
+    switch (type) {
+        case 'easeIn':
+            return t * t;
+        case 'easeOut':
+            return 1 - (1 - t) * (1 - t);
+        case 'easeInOut':
+            return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+        default:
+            return t;
+    }
+}
+
+function lerp(a: number, b: number, t: number) {
+    return a + (b - a) * t;
+}
+
+// Targets at time t (seconds from the start of the sign). Before the first keyframe the
+// hand heads for it; after the last one it holds.
+export function sampleTimeline(timeline: SignTimeline, t: number): HandPose {
+    const frames = timeline.keyframes;
+    if (t <= frames[0].at) return frames[0].pose;
+    if (t >= frames[frames.length - 1].at) return frames[frames.length - 1].pose;
+
+    let i = 1;
+    while (frames[i].at < t) i++;
+    const from = frames[i - 1];
+    const to = frames[i];
+    const k = ease(to.ease, (t - from.at) / (to.at - from.at));
+
+    const fingers: HandPose['fingers'] = {};
+    for (const f of FINGER_NAMES) {
+        const a = from.pose.fingers[f];
+        const b = to.pose.fingers[f];
+        if (a !== undefined && b !== undefined) fingers[f] = lerp(a, b, k);
+        else if (b !== undefined) fingers[f] = b;
+    }
+
+    // Named handshapes blend joint by joint; otherwise the shape being approached is used
+    const shape = from.pose.shape && to.pose.shape ? blendHandshapes(from.pose.shape, to.pose.shape, k) : to.pose.shape;
+
+    return {
+        position: {
+            x: lerp(from.pose.position.x, to.pose.position.x, k),
+            y: lerp(from.pose.position.y, to.pose.position.y, k),
+            z: lerp(from.pose.position.z, to.pose.position.z, k)
+        },
+        wrist: {
+            x: lerp(from.pose.wrist.x, to.pose.wrist.x, k),
+            y: lerp(from.pose.wrist.y, to.pose.wrist.y, k),
+            z: lerp(from.pose.wrist.z, to.pose.wrist.z, k)
+        },
+        fingers,
+        ...(shape ? { shape } : {})
+    };
+}
+
+// --- Compiling ---
+
+// Seconds between the times each wave in a curve is back at its starting value
+// (sin and |sin| every half cycle, cos every full cycle)
+function curvePeriods(curve: MotionCurve | undefined): number[] {
+    if (curve === undefined || typeof curve === 'number') return [];
+    return curve.waves
+        .filter(w => w.freq !== 0 && w.amp !== 0)
+        .map(w => (w.fn === 'cos' ? 2 * Math.PI : Math.PI) / Math.abs(w.freq));
+}
+
+function poseFromCurves(track: HandTrack, time: number): HandPose {
+    const fingers: HandPose['fingers'] = {};
+    for (const f of FINGER_NAMES) {
+        const curve = track.handshape[f];
+        if (curve !== undefined) fingers[f] = evaluateCurve(curve, time);
+    }
+    return {
+        position: SIGNING_LOCATIONS[track.location],
+        wrist: {
+            x: evaluateCurve(track.wrist.x, time),
+            y: evaluateCurve(track.wrist.y, time),
+            z: evaluateCurve(track.wrist.z, time)
+        },
+        fingers,
+        ...(track.shape ? { shape: HANDSHAPES[track.shape] } : {})
+    };
+}
+
+// Curve signs: sample a whole number of rest intervals of the slowest wave, as close
+// to the sign's duration as possible, so the movement ends back at rest instead of mid-swing
+function compileCurves(track: HandTrack, duration: number): TimelineKeyframe[] {
+    const target = duration / 1000;
+    const periods = [
+        ...FINGER_NAMES.flatMap(f => curvePeriods(track.handshape[f])),
+        ...curvePeriods(track.wrist.x), ...curvePeriods(track.wrist.y), ...curvePeriods(track.wrist.z)
+    ];
+
+    // A static sign holds its pose for the whole duration
+    if (periods.length === 0) {
+        const pose = poseFromCurves(track, 0);
+        return [
+            { at: ONSET, pose, ease: 'easeOut' },
+            { at: ONSET + target, pose, ease: 'linear' }
+        ];
+    }
+
+    const longest = Math.max(...periods);
+    const movement = longest > target * 1.5 ? target : Math.max(1, Math.round(target / longest)) * longest;
+    const step = Math.min(SAMPLE_STEP, Math.min(...periods) / 8);
+    const count = Math.max(2, Math.ceil(movement / step));
+
+    const keyframes: TimelineKeyframe[] = [];
+    for (let i = 0; i <= count; i++) {
+        const time = movement * i / count;
+        keyframes.push({ at: ONSET + time, pose: poseFromCurves(track, time), ease: i === 0 ? 'easeOut' : 'linear' });
+    }
+    return keyframes;
+}
+
+// Keyframe signs: fill in wrist axes, fingers, handshape and location each keyframe leaves
+// out. Per-finger curls replace a named handshape carried over from before.
+function compileKeyframes(track: HandTrack): TimelineKeyframe[] {
+    let wrist = { x: 0, y: 0, z: 0 };
+    let shape: string | undefined = track.shape;
+    let fingers: HandPose['fingers'] = shape ? handshapeCurls(HANDSHAPES[shape]) : {};
+    let location = track.location;
+
+    return track.keyframes!.map(frame => {
+        wrist = { ...wrist, ...frame.wrist };
+        fingers = { ...fingers, ...frame.handshape };
+        if (frame.shape) shape = frame.shape;
+        else if (Object.keys(frame.handshape).length > 0) shape = undefined;
+        location = frame.location || location;
+        const pose: HandPose = {
+            position: SIGNING_LOCATIONS[location], wrist, fingers,
+            ...(shape ? { shape: HANDSHAPES[shape] } : {})
+        };
+        return { at: ONSET + frame.at / 1000, pose, ease: frame.ease };
+    });
+}
+
+function compileTrack(sign: SignDefinition, track: HandTrack): SignTimeline {
+    const keyframes = track.keyframes ? compileKeyframes(track) : compileCurves(track, sign.duration);
+    const movement = keyframes[keyframes.length - 1].at - ONSET;
+    const hold = sign.hold !== undefined ? sign.hold / 1000 : DEFAULT_HOLD;
+    return { keyframes, onset: ONSET, movement, hold, length: ONSET + movement + hold };
+}
+
+// Timelines are compiled once per hand track
+const timelines = new WeakMap<HandTrack, SignTimeline>();
+
+// The timeline a hand in the given role plays. Signs without a base track give the base
+// hand the dominant track (mirrored by RobotHand).
+export function getSignTimeline(sign: SignDefinition, role: HandRole = 'dominant'): SignTimeline {
+    const track = role === 'base' && sign.base ? sign.base : sign;
+    let timeline = timelines.get(track);
+    if (!timeline) {
+        timeline = compileTrack(sign, track);
+        timelines.set(track, timeline);
+    }
+    return timeline;
+}
@@ -0,0 +1,26 @@
+// Signing Space
+// Named places a sign can be made, as wrist positions of the right hand in scene units.
+// The left hand mirrors them across the body's midline (x -> -x). Fingers point up from
+// the wrist, so the wrist sits below the place the fingertips reach.
+
+export type SigningLocation = 'forehead' | 'chin' | 'chest' | 'neutral' | 'side';
+
+export interface Position {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export const SIGNING_LOCATIONS: { [key in SigningLocation]: Position } = {
+    forehead: { x: 0.8, y: 3.0, z: 0.2 },
+    chin: { x: 0.5, y: 1.0, z: 0.3 },
+    chest: { x: 0.8, y: -0.8, z: -0.2 },
+    neutral: { x: 1.5, y: -2.0, z: 0 },   // In front of the body, where most signs happen
+    side: { x: 3.5, y: -1.5, z: -0.5 }    // Out to the signer's side
+};
+
+export const LOCATION_NAMES = Object.keys(SIGNING_LOCATIONS) as SigningLocation[];
+
+export function isSigningLocation(name: unknown): name is SigningLocation {
+    return typeof name === 'string' && name in SIGNING_LOCATIONS;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScriptedSpeechInput, WebSpeechInput } from './SpeechInput';
+import type { SpeechResult } from './SpeechInput';
+import { englishToASLGloss } from './ASLGloss';
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+// Start the input and play its whole script, collecting what it reports
+async function play(input: ScriptedSpeechInput) {
+    const results: SpeechResult[] = [];
+    const states: boolean[] = [];
+    input.onResult = result => results.push(result);
+    input.onStateChange = listening => states.push(listening);
+    await input.start();
+    await vi.runAllTimersAsync();
+    return { results, states };
+}
+
+describe('ScriptedSpeechInput', () => {
+    it('speaks sentences word by word, then finalizes them', async () => {
+        const input = ScriptedSpeechInput.fromSentences(['hello my name', 'goodbye']);
+        input.interimResults = true;
+        const { results, states } = await play(input);
+
+        expect(results).toEqual([
+            { transcript: 'hello', isFinal: false },
+            { transcript: 'hello my', isFinal: false },
+            { transcript: 'hello my name', isFinal: true },
+            { transcript: 'goodbye', isFinal: true }
+        ]);
+        expect(states).toEqual([true, false]);
+        expect(input.listening).toBe(false);
+    });
+
+    it('skips interim results unless asked for them', async () => {
+        const { results } = await play(ScriptedSpeechInput.fromSentences(['hello my name']));
+        expect(results).toEqual([{ transcript: 'hello my name', isFinal: true }]);
+    });
+
+    it('replays results at its interval', async () => {
+        const input = ScriptedSpeechInput.fromSentences(['one', 'two'], 1000);
+        const results: string[] = [];
+        input.onResult = result => results.push(result.transcript);
+        await input.start();
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(results).toEqual([]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(results).toEqual(['one']);
+        input.stop();
+        await vi.runAllTimersAsync();
+        expect(results).toEqual(['one']);
+    });
+
+    it('drives gloss output from its final transcripts', async () => {
+        const input = ScriptedSpeechInput.fromSentences([
+            'I like cookies',
+            'where do you live',
+            'I do not like coffee'
+        ]);
+        const glosses: string[] = [];
+        input.onResult = result => {
+            if (result.isFinal) glosses.push(englishToASLGloss(result.transcript).toString());
+        };
+        await input.start();
+        await vi.runAllTimersAsync();
+
+        expect(glosses).toEqual([
+            'COOKIE I LIKE',
+            '[YOU LIVE WHERE]whq',
+            'COFFEE I [LIKE]neg'
+        ]);
+    });
+});
+
+// Stands in for the browser's SpeechRecognition; records the settings of each start
+class FakeRecognition {
+    lang = '';
+    interimResults = false;
+    maxAlternatives = 1;
+    continuous = true;
+    onstart: (() => void) | null = null;
+    onend: (() => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    onresult: ((event: any) => void) | null = null;
+    starts: { lang: string; interimResults: boolean; maxAlternatives: number }[] = [];
+
+    start() {
+        this.starts.push({ lang: this.lang, interimResults: this.interimResults, maxAlternatives: this.maxAlternatives });
+        if (this.onstart) this.onstart();
+    }
+
+    stop() {
+        if (this.onend) this.onend();
+    }
+}
+
+describe('WebSpeechInput', () => {
+    it('applies setting changes when it restarts for the next utterance', async () => {
+        let recognition: FakeRecognition | null = null;
+        vi.stubGlobal('window', {
+            SpeechRecognition: class extends FakeRecognition {
+                constructor() {
+                    super();
+                    recognition = this;
+                }
+            }
+        });
+        const input = new WebSpeechInput();
+        await input.start();
+
+        input.lang = 'es-ES';
+        input.interimResults = true;
+        input.maxAlternatives = 3;
+        // The engine ends the utterance by itself; the input starts listening again
+        recognition!.onend!();
+        await vi.runAllTimersAsync();
+
+        expect(recognition!.starts).toEqual([
+            { lang: 'en-US', interimResults: false, maxAlternatives: 1 },
+            { lang: 'es-ES', interimResults: true, maxAlternatives: 3 }
+        ]);
+        input.stop();
+        await vi.runAllTimersAsync();
+        expect(recognition!.starts.length).toBe(2);
+    });
+});
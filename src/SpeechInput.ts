@@ -0,0 +1,332 @@
+// Speech Input
+// Speech-to-text backends behind one interface. The Web Speech API is the default; a
+// worker-based recognizer (e.g. a WASM model) runs locally without a network, and the
+// scripted input replays transcripts for tests and demos.
+
+export interface SpeechAlternative {
+    transcript: string;
+    confidence?: number; // 0..1, when the engine gives one
+}
+
+export interface SpeechResult {
+    transcript: string;
+    isFinal: boolean;    // false for interim results of an utterance still being spoken
+    confidence?: number; // 0..1 for the transcript, when the engine gives one
+    // Every hypothesis, best first (the first is the transcript); only when more were asked for
+    alternatives?: SpeechAlternative[];
+}
+
+export interface SpeechInput {
+    readonly name: string;
+    readonly listening: boolean;
+    lang: string;             // BCP 47 language tag, e.g. 'en-US'
+    interimResults: boolean;  // Report interim results (takes effect from the next start)
+    maxAlternatives: number;  // Hypotheses per result (takes effect from the next start)
+
+    // Every utterance ends with a final result, even when the engine stops before one
+    onResult: ((result: SpeechResult) => void) | null;
+    onError: ((message: string) => void) | null;
+    onStateChange: ((listening: boolean) => void) | null;
+
+    start(): Promise<void>;
+    stop(): void;
+}
+
+// Browser speech recognition (Chrome sends audio to a server, so it needs a network)
+export class WebSpeechInput implements SpeechInput {
+    readonly name = 'Web Speech API';
+    lang = 'en-US';
+    interimResults = false;
+    maxAlternatives = 1;
+
+    onResult: ((result: SpeechResult) => void) | null = null;
+    onError: ((message: string) => void) | null = null;
+    onStateChange: ((listening: boolean) => void) | null = null;
+
+    private recognition: any;
+    private wantListening = false;
+    private interimResult: SpeechResult | null = null; // Latest interim result of the utterance being spoken
+
+    static isSupported(): boolean {
+        return !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+    }
+
+    constructor() {
+        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+        if (!SpeechRecognition) throw new Error("Web Speech API not supported in this browser.");
+
+        this.recognition = new SpeechRecognition();
+        this.recognition.continuous = false; // Changed to false for stability
+
+        this.recognition.onstart = () => {
+            if (this.onStateChange) this.onStateChange(true);
+        };
+
+        this.recognition.onend = () => {
+            if (this.onStateChange) this.onStateChange(false);
+
+            // The session ended before a final result: the last interim one is all we get
+            if (this.interimResult) this.emit({ ...this.interimResult, isFinal: true });
+
+            // Auto-restart if we are supposed to be listening
+            // This replaces 'continuous: true' with a more stable manual loop
+            if (this.wantListening) {
+                setTimeout(() => {
+                    try {
+                        // Setting changes apply from the next utterance
+                        this.recognition.lang = this.lang;
+                        this.recognition.interimResults = this.interimResults;
+                        this.recognition.maxAlternatives = this.maxAlternatives;
+                        this.recognition.start();
+                    } catch (e) {
+                        console.log("Restart ignored", e);
+                        this.wantListening = false;
+                    }
+                }, 100);
+            }
+        };
+
+        this.recognition.onerror = (event: any) => {
+            console.error("Speech Error Details:", event);
+
+            if (event.error === 'not-allowed') {
+                this.fail("Microphone access denied. Please allow in browser settings.");
+            } else if (event.error === 'network') {
+                this.fail("Network error. Use the text input below or a local recognizer.");
+            } else if (event.error !== 'aborted' && event.error !== 'no-speech') {
+                this.fail(`Error: ${event.error}`);
+            }
+
+            // Errors end the listening loop
+            this.wantListening = false;
+            if (this.onStateChange) this.onStateChange(false);
+        };
+
+        this.recognition.onresult = (event: any) => {
+            for (let i = event.resultIndex; i < event.results.length; i++) {
+                const result = event.results[i];
+                const alternatives: SpeechAlternative[] = [];
+                for (let j = 0; j < result.length; j++) {
+                    const transcript = result[j].transcript.trim();
+                    // Chrome reports 0 when it has no estimate (interim results)
+                    const confidence = result[j].confidence > 0 ? result[j].confidence : undefined;
+                    if (transcript) alternatives.push({ transcript, confidence });
+                }
+                if (alternatives.length === 0) continue;
+
+                this.emit({
+                    ...alternatives[0],
+                    isFinal: result.isFinal,
+                    ...(this.maxAlternatives > 1 ? { alternatives } : {})
+                });
+            }
+        };
+    }
+
+    get listening() {
+        return this.wantListening;
+    }
+
+    async start() {
+        this.recognition.lang = this.lang;
+        this.recognition.interimResults = this.interimResults;
+        this.recognition.maxAlternatives = this.maxAlternatives;
+        this.wantListening = true; // Set flag so onend knows to restart
+        try {
+            this.recognition.start();
+        } catch (e) {
+            this.wantListening = false;
+            throw e;
+        }
+    }
+
+    stop() {
+        this.wantListening = false;
+        this.recognition.stop();
+    }
+
+    private emit(result: SpeechResult) {
+        this.interimResult = result.isFinal ? null : result;
+        if (this.onResult) this.onResult(result);
+    }
+
+    private fail(message: string) {
+        if (this.onError) this.onError(message);
+    }
+}
+
+// A recognizer running in a Web Worker, e.g. a WASM speech model, so nothing leaves the
+// machine. Microphone audio is streamed to the worker as mono Float32 samples.
+// The worker script isn't part of the app; it is deployed with its model (see main.ts).
+// Messages to the worker:
+//   { type: 'start', lang, sampleRate, interimResults, maxAlternatives }
+//   { type: 'audio', samples }
+//   { type: 'stop' }
+// Messages from the worker (confidence and alternatives are optional):
+//   { type: 'result', transcript, isFinal, confidence, alternatives: [{ transcript, confidence }] }
+//   { type: 'error', message }
+export class WorkerSpeechInput implements SpeechInput {
+    readonly name = 'Local recognizer';
+    lang = 'en-US';
+    interimResults = false;
+    maxAlternatives = 1;
+    listening = false;
+
+    onResult: ((result: SpeechResult) => void) | null = null;
+    onError: ((message: string) => void) | null = null;
+    onStateChange: ((listening: boolean) => void) | null = null;
+
+    workerUrl: string | URL;
+    private worker: Worker | null = null;
+    private stream: MediaStream | null = null;
+    private context: AudioContext | null = null;
+    private processor: ScriptProcessorNode | null = null;
+
+    constructor(workerUrl: string | URL) {
+        this.workerUrl = workerUrl;
+    }
+
+    async start() {
+        if (this.listening) return;
+
+        if (!this.worker) {
+            console.log(`[SpeechInput] Starting recognizer worker ${this.workerUrl}...`);
+            this.worker = new Worker(this.workerUrl);
+            this.worker.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+            this.worker.onerror = (event: ErrorEvent) => {
+                // A script that didn't load (e.g. not deployed) fails without a message
+                const reason = event.message || `couldn't load ${this.workerUrl}`;
+                if (this.onError) this.onError(`Recognizer failed: ${reason}`);
+                this.stop();
+            };
+        }
+
+        this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        this.context = new AudioContext();
+        const source = this.context.createMediaStreamSource(this.stream);
+        this.processor = this.context.createScriptProcessor(4096, 1, 1);
+        this.processor.onaudioprocess = (event: AudioProcessingEvent) => {
+            const samples = new Float32Array(event.inputBuffer.getChannelData(0));
+            this.worker!.postMessage({ type: 'audio', samples }, [samples.buffer]);
+        };
+        source.connect(this.processor);
+        this.processor.connect(this.context.destination);
+
+        this.worker.postMessage({
+            type: 'start', lang: this.lang, sampleRate: this.context.sampleRate,
+            interimResults: this.interimResults, maxAlternatives: this.maxAlternatives
+        });
+        this.listening = true;
+        if (this.onStateChange) this.onStateChange(true);
+    }
+
+    stop() {
+        if (!this.listening) return;
+        this.listening = false;
+
+        if (this.worker) this.worker.postMessage({ type: 'stop' });
+        if (this.processor) {
+            this.processor.disconnect();
+            this.processor = null;
+        }
+        if (this.stream) {
+            this.stream.getTracks().forEach(track => track.stop());
+            this.stream = null;
+        }
+        if (this.context) {
+            this.context.close().catch(err => console.warn("[SpeechInput] Closing audio failed:", err));
+            this.context = null;
+        }
+        if (this.onStateChange) this.onStateChange(false);
+    }
+
+    private handleMessage(data: any) {
+        if (!data) return;
+        if (data.type === 'result' && typeof data.transcript === 'string') {
+            const transcript = data.transcript.trim();
+            if (!transcript) return;
+            // Interim results are only passed on when asked for
+            if (!data.isFinal && !this.interimResults) return;
+
+            const result: SpeechResult = { transcript, isFinal: !!data.isFinal, confidence: toConfidence(data.confidence) };
+            if (Array.isArray(data.alternatives) && this.maxAlternatives > 1) {
+                result.alternatives = data.alternatives
+                    .filter((alt: any) => alt && typeof alt.transcript === 'string' && alt.transcript.trim())
+                    .slice(0, this.maxAlternatives)
+                    .map((alt: any) => ({ transcript: alt.transcript.trim(), confidence: toConfidence(alt.confidence) }));
+            }
+            if (this.onResult) this.onResult(result);
+        } else if (data.type === 'error') {
+            if (this.onError) this.onError(String(data.message));
+        }
+    }
+}
+
+// A confidence from outside: a number in 0..1, or nothing
+function toConfidence(value: unknown): number | undefined {
+    return typeof value === 'number' && value >= 0 && value <= 1 ? value : undefined;
+}
+
+// Replays scripted results at a fixed interval, for tests and demos without a microphone
+export class ScriptedSpeechInput implements SpeechInput {
+    readonly name = 'Scripted';
+    lang = 'en-US';
+    interimResults = false;
+    maxAlternatives = 1;
+    listening = false;
+
+    onResult: ((result: SpeechResult) => void) | null = null;
+    onError: ((message: string) => void) | null = null;
+    onStateChange: ((listening: boolean) => void) | null = null;
+
+    script: SpeechResult[];
+    interval: number; // ms between results
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(script: SpeechResult[], interval: number = 500) {
+        this.script = script;
+        this.interval = interval;
+    }
+
+    // A script that speaks each sentence word by word (interim results), then finalizes it
+    static fromSentences(sentences: string[], interval?: number): ScriptedSpeechInput {
+        const script: SpeechResult[] = [];
+        for (const sentence of sentences) {
+            const words = sentence.split(/\s+/).filter(w => w.length > 0);
+            for (let i = 1; i < words.length; i++) {
+                script.push({ transcript: words.slice(0, i).join(' '), isFinal: false });
+            }
+            script.push({ transcript: words.join(' '), isFinal: true });
+        }
+        return new ScriptedSpeechInput(script, interval);
+    }
+
+    async start() {
+        if (this.listening) return;
+        this.listening = true;
+        if (this.onStateChange) this.onStateChange(true);
+        this.play(0);
+    }
+
+    stop() {
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = null;
+        if (!this.listening) return;
+        this.listening = false;
+        if (this.onStateChange) this.onStateChange(false);
+    }
+
+    private play(index: number) {
+        // Skip interim results unless they were asked for
+        while (index < this.script.length && !this.script[index].isFinal && !this.interimResults) index++;
+        if (index >= this.script.length) {
+            this.stop();
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            if (this.onResult) this.onResult(this.script[index]);
+            this.play(index + 1);
+        }, this.interval);
+    }
+}
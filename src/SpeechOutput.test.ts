@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WorkerSpeechOutput } from './SpeechOutput';
+
+// A synthesizer worker that answers when told to
+class FakeWorker {
+    static last: FakeWorker;
+    onmessage: ((event: { data: any }) => void) | null = null;
+    onerror: ((event: { message: string }) => void) | null = null;
+    posted: any[] = [];
+
+    constructor() {
+        FakeWorker.last = this;
+    }
+
+    postMessage(data: any) {
+        this.posted.push(data);
+    }
+
+    reply(data: any) {
+        this.onmessage!({ data });
+    }
+
+    fail(message: string) {
+        this.onerror!({ message });
+    }
+
+    speakIds(): number[] {
+        return this.posted.filter(m => m.type === 'speak').map(m => m.id);
+    }
+}
+
+// Audio playback that ends at once, or throws for buffers marked bad (sampleRate 0)
+class FakeAudioContext {
+    destination = {};
+    createBuffer(_channels: number, _length: number, sampleRate: number) {
+        if (sampleRate === 0) throw new Error('bad sample rate');
+        return { getChannelData: () => new Float32Array(1) };
+    }
+    createBufferSource() {
+        const source: any = { connect() {}, stop() {}, onended: null };
+        source.start = () => source.onended();
+        return source;
+    }
+}
+
+function audio(id: number, sampleRate = 16000) {
+    return { type: 'audio', id, samples: new Float32Array(1), sampleRate };
+}
+
+beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('WorkerSpeechOutput', () => {
+    it('keeps speaking after an utterance fails to play', async () => {
+        const output = new WorkerSpeechOutput('/synthesizer-worker.js');
+        const worker = FakeWorker.last;
+        const first = output.speak('hello');
+        const second = output.speak('goodbye');
+        const [a, b] = worker.speakIds();
+
+        worker.reply(audio(a, 0));
+        worker.reply(audio(b));
+        await expect(first).resolves.toBeUndefined();
+        await expect(second).resolves.toBeUndefined();
+        expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets waiting utterances go when the worker fails', async () => {
+        const output = new WorkerSpeechOutput('/synthesizer-worker.js');
+        const worker = FakeWorker.last;
+        worker.reply({ type: 'voices', voices: [] });
+        const waiting = output.speak('hello');
+
+        worker.fail('out of memory');
+        await expect(waiting).resolves.toBeUndefined();
+
+        // It had started, so it is still asked to speak
+        output.speak('again');
+        expect(worker.speakIds()).toHaveLength(2);
+    });
+
+    it('stops sending to a worker that failed before it answered', async () => {
+        const output = new WorkerSpeechOutput('/missing-worker.js');
+        const worker = FakeWorker.last;
+        worker.fail('failed to load');
+
+        await expect(output.speak('hello')).resolves.toBeUndefined();
+        expect(worker.speakIds()).toEqual([]);
+    });
+});
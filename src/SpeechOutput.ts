@@ -0,0 +1,194 @@
+// Speech Output
+// Text-to-speech backends behind one interface, voicing what the user signs and what
+// they type. speechSynthesis is the default; a worker-based engine (e.g. a WASM voice)
+// can take its place, like the recognizers in SpeechInput.ts.
+
+export interface SpeechVoice {
+    id: string;   // Stable id to save in settings
+    name: string;
+    lang: string; // BCP 47 language tag
+}
+
+export interface SpeechOutput {
+    readonly name: string;
+    lang: string;          // BCP 47 language tag, e.g. 'en-US'
+    voice: string | null;  // Voice id (see voices()); null lets the engine pick one for lang
+    rate: number;          // 0.5 .. 2, 1 is normal speed
+    pitch: number;         // 0 .. 2, 1 is normal pitch
+
+    // Voices can arrive after startup; onVoicesChanged fires when they do
+    voices(): SpeechVoice[];
+    onVoicesChanged: (() => void) | null;
+
+    // Queued after anything still being spoken; resolves once spoken (or cancelled)
+    speak(text: string): Promise<void>;
+    cancel(): void;
+}
+
+// The browser's built-in voices
+export class WebSpeechOutput implements SpeechOutput {
+    readonly name = 'Web Speech API';
+    lang = 'en-US';
+    voice: string | null = null;
+    rate = 1;
+    pitch = 1;
+
+    onVoicesChanged: (() => void) | null = null;
+
+    static isSupported(): boolean {
+        return 'speechSynthesis' in window;
+    }
+
+    constructor() {
+        if (!WebSpeechOutput.isSupported()) throw new Error("Speech synthesis not supported in this browser.");
+
+        // Chrome loads its voice list asynchronously
+        window.speechSynthesis.addEventListener('voiceschanged', () => {
+            if (this.onVoicesChanged) this.onVoicesChanged();
+        });
+    }
+
+    voices(): SpeechVoice[] {
+        return window.speechSynthesis.getVoices().map(v => ({ id: v.voiceURI, name: v.name, lang: v.lang }));
+    }
+
+    speak(text: string): Promise<void> {
+        return new Promise(resolve => {
+            const utterance = new SpeechSynthesisUtterance(text);
+            utterance.lang = this.lang;
+            utterance.rate = this.rate;
+            utterance.pitch = this.pitch;
+
+            const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === this.voice);
+            if (voice) utterance.voice = voice;
+
+            utterance.onend = () => resolve();
+            utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+                if (event.error !== 'canceled' && event.error !== 'interrupted') {
+                    console.warn("[SpeechOutput] Speech failed:", event.error);
+                }
+                resolve();
+            };
+            window.speechSynthesis.speak(utterance);
+        });
+    }
+
+    cancel() {
+        window.speechSynthesis.cancel();
+    }
+}
+
+// A synthesizer running in a Web Worker, e.g. a WASM voice, so nothing leaves the machine.
+// The worker script isn't part of the app; it is deployed with its voices (see main.ts).
+// Messages to the worker:
+//   { type: 'voices' }
+//   { type: 'speak', id, text, lang, voice, rate, pitch }
+//   { type: 'cancel' }
+// Messages from the worker:
+//   { type: 'voices', voices: [{ id, name, lang }] }
+//   { type: 'audio', id, samples, sampleRate }   (mono Float32 samples of the whole utterance)
+//   { type: 'error', id, message }
+export class WorkerSpeechOutput implements SpeechOutput {
+    readonly name = 'Local synthesizer';
+    lang = 'en-US';
+    voice: string | null = null;
+    rate = 1;
+    pitch = 1;
+
+    onVoicesChanged: (() => void) | null = null;
+
+    workerUrl: string | URL;
+    private worker: Worker;
+    private context: AudioContext | null = null;
+    private source: AudioBufferSourceNode | null = null;
+    private voiceList: SpeechVoice[] = [];
+    private nextId = 0;
+    private pending = new Map<number, (data?: any) => void>(); // Utterances waiting for their audio
+    private queue: Promise<void> = Promise.resolve(); // Playback, one utterance at a time
+    private started = false; // The worker has answered at least once
+    private failed = false;  // The worker failed before it ever answered (e.g. it didn't load)
+
+    constructor(workerUrl: string | URL) {
+        this.workerUrl = workerUrl;
+        console.log(`[SpeechOutput] Starting synthesizer worker ${workerUrl}...`);
+        this.worker = new Worker(workerUrl);
+        this.worker.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+        // A script that didn't load (e.g. not deployed) fails without a message
+        this.worker.onerror = (event: ErrorEvent) => this.handleError(event.message || `couldn't load ${workerUrl}`);
+        this.worker.postMessage({ type: 'voices' });
+    }
+
+    voices(): SpeechVoice[] {
+        return this.voiceList;
+    }
+
+    speak(text: string): Promise<void> {
+        if (this.failed) return Promise.resolve();
+        const id = this.nextId++;
+        const audio = new Promise<any>(resolve => this.pending.set(id, resolve));
+        this.worker.postMessage({
+            type: 'speak', id, text, lang: this.lang, voice: this.voice, rate: this.rate, pitch: this.pitch
+        });
+
+        // Synthesis runs ahead; playback waits for the utterance before it. An utterance that
+        // can't be played is skipped, not the ones after it.
+        this.queue = this.queue.then(() => audio)
+            .then(data => data ? this.play(data) : undefined)
+            .catch(err => console.warn("[SpeechOutput] Playback failed:", err));
+        return this.queue;
+    }
+
+    cancel() {
+        this.worker.postMessage({ type: 'cancel' });
+        this.pending.forEach(resolve => resolve());
+        this.pending.clear();
+        // Stopping ends the utterance being played (its onended still fires)
+        if (this.source) this.source.stop();
+        this.queue = Promise.resolve();
+    }
+
+    private play(data: { samples: Float32Array, sampleRate: number }): Promise<void> {
+        if (!this.context) this.context = new AudioContext();
+        const buffer = this.context.createBuffer(1, data.samples.length, data.sampleRate);
+        buffer.getChannelData(0).set(data.samples);
+
+        const source = this.context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(this.context.destination);
+        this.source = source;
+
+        return new Promise(resolve => {
+            source.onended = () => {
+                if (this.source === source) this.source = null;
+                resolve();
+            };
+            source.start();
+        });
+    }
+
+    // Utterances waiting on the worker won't get an answer; let them go. A worker that never
+    // answered didn't start, so later utterances aren't sent to it at all.
+    private handleError(message: string) {
+        console.error("[SpeechOutput] Synthesizer failed:", message);
+        if (!this.started) this.failed = true;
+        this.pending.forEach(resolve => resolve());
+        this.pending.clear();
+    }
+
+    private handleMessage(data: any) {
+        this.started = true;
+        if (!data) return;
+        if (data.type === 'voices' && Array.isArray(data.voices)) {
+            this.voiceList = data.voices.filter((v: any) => v && typeof v.id === 'string')
+                .map((v: any) => ({ id: v.id, name: String(v.name ?? v.id), lang: String(v.lang ?? '') }));
+            if (this.onVoicesChanged) this.onVoicesChanged();
+        } else if (data.type === 'audio' || data.type === 'error') {
+            const resolve = this.pending.get(data.id);
+            if (!resolve) return; // Cancelled
+            this.pending.delete(data.id);
+
+            if (data.type === 'error') console.warn("[SpeechOutput] Speech failed:", data.message);
+            resolve(data.type === 'audio' && data.samples instanceof Float32Array ? data : undefined);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { SPOKEN_LANGUAGES, isSpokenLanguageId, translateWords } from './SpokenLanguages';
+import { glossFor, SIGN_LANGUAGES } from './SignLanguages';
+
+const spanish = SPOKEN_LANGUAGES['es-ES'];
+
+function english(sentence: string): string {
+    return translateWords(spanish, sentence.split(' ')).map(w => w.word).join(' ');
+}
+
+function gloss(sentence: string): string {
+    return glossFor(sentence, SIGN_LANGUAGES.asl, spanish).toString();
+}
+
+describe('Spanish plurals', () => {
+    it('reads a plural as the singular in the table', () => {
+        expect(english('perros')).toBe('dog');
+        expect(english('las ciudades')).toBe('the city');
+        expect(english('muchas veces')).toBe('many time');
+        expect(english('países')).toBe('country');
+        expect(gloss('tengo dos perros')).toBe('2 DOG');
+    });
+
+    it('prefers the table to a plural reading', () => {
+        expect(english('amigos')).toBe('friends');
+        expect(english('mes')).toBe('month');
+        expect(english('meses')).toBe('month');
+    });
+
+    it('leaves short words and unknown words alone', () => {
+        expect(english('nos')).toBe('nos');
+        expect(english('gatitos')).toBe('gatitos');
+    });
+});
+
+describe('Spanish numbers', () => {
+    it('reads numbers spelled as one word', () => {
+        expect(english('veinticinco')).toBe('twenty five');
+        expect(english('dieciséis')).toBe('sixteen');
+        expect(gloss('tengo veinticinco perros')).toBe('25 DOG');
+        expect(gloss('veintidós')).toBe('22');
+    });
+
+    it('reads tens and units joined by y', () => {
+        expect(english('treinta y cinco')).toBe('thirty five');
+        expect(gloss('noventa y nueve gatos')).toBe('99 CAT');
+    });
+
+    it('reads hundreds and thousands', () => {
+        expect(english('quinientos')).toBe('five hundred');
+        expect(english('dos mil')).toBe('two thousand');
+    });
+
+    it('keeps spans pointing at the Spanish words', () => {
+        expect(translateWords(spanish, ['treinta', 'y', 'cinco', 'perros'])).toEqual([
+            { word: 'thirty', from: 0, to: 2 },
+            { word: 'five', from: 0, to: 2 },
+            { word: 'dog', from: 3, to: 3 }
+        ]);
+    });
+});
+
+describe('isSpokenLanguageId', () => {
+    it('accepts only the languages listed', () => {
+        expect(isSpokenLanguageId('es-MX')).toBe(true);
+        expect(isSpokenLanguageId('fr-FR')).toBe(false);
+        expect(isSpokenLanguageId(3)).toBe(false);
+    });
+
+    it('does not accept inherited object keys', () => {
+        expect(isSpokenLanguageId('toString')).toBe(false);
+        expect(isSpokenLanguageId('__proto__')).toBe(false);
+        expect(isSpokenLanguageId('constructor')).toBe(false);
+    });
+});
@@ -0,0 +1,521 @@
+// Spoken Languages
+// Languages speech can be recognized in. The gloss converter's tagger reads English, so
+// other languages are first translated word by word into English words ("quiero café" ->
+// "want coffee"); word order, questions and negation are then handled as for English.
+// Words a table doesn't know pass through unchanged and get fingerspelled.
+
+export type SpokenLanguageId = 'en-US' | 'en-GB' | 'es-ES' | 'es-MX';
+
+export interface SpokenLanguage {
+    id: SpokenLanguageId; // BCP 47 tag for speech recognition and synthesis
+    name: string;
+    // Word or phrase (up to 3 words) -> English words; '' drops it. Keys without accents
+    // also match accented input; accented keys only match exactly ("él" he, "el" the).
+    toEnglish?: { [words: string]: string };
+    // Singular forms to look up for a word the table doesn't have ("perros" -> "perro").
+    // Signs don't mark the plural, so the singular's English stands for both.
+    singulars?: (word: string) => string[];
+}
+
+// Longest phrase key in a word table
+const MAX_PHRASE = 3;
+
+const SPANISH_TO_ENGLISH: { [words: string]: string } = {
+    // Phrases
+    'por favor': 'please',
+    'por que': 'why',
+    'muchas gracias': 'thank you',
+    'buenos dias': 'good morning',
+    'buenas tardes': 'good afternoon',
+    'buenas noches': 'good night',
+    'hasta luego': 'goodbye',
+    'a veces': 'sometimes',
+    'la manana': 'morning',
+    'me llamo': 'my name is',
+    'se llama': 'name is',
+    'como te llamas': 'what is your name',
+    'como se llama': 'what is name',
+    'me gusta': 'i like',
+    'me gustan': 'i like',
+    'te gusta': 'you like',
+    'te gustan': 'you like',
+    'le gusta': 'he likes',
+    'nos gusta': 'we like',
+    'les gusta': 'they like',
+    'cuantos': 'how many',
+    'cuantas': 'how many',
+    'cuanto': 'how much',
+    'cuanta': 'how much',
+
+    // Greetings and answers
+    'hola': 'hello',
+    'adios': 'goodbye',
+    'gracias': 'thank you',
+    'perdon': 'sorry',
+    'lo siento': 'sorry',
+    'sí': 'yes',
+    'no': 'not',
+
+    // Pronouns and possessives
+    'yo': 'i',
+    'tú': 'you',
+    'usted': 'you',
+    'ustedes': 'you',
+    'vos': 'you',
+    'él': 'he',
+    'ella': 'she',
+    'nosotros': 'we',
+    'nosotras': 'we',
+    'ellos': 'they',
+    'ellas': 'they',
+    'me': 'me',
+    'te': 'you',
+    'mí': 'me',
+    'ti': 'you',
+    'mi': 'my',
+    'mis': 'my',
+    'tu': 'your',
+    'tus': 'your',
+    'su': 'his',
+    'sus': 'their',
+    'nuestro': 'our',
+    'nuestra': 'our',
+
+    // Articles, prepositions and linking words (mostly not signed)
+    'el': 'the',
+    'la': 'the',
+    'los': 'the',
+    'las': 'the',
+    'un': 'a',
+    'una': 'a',
+    'unos': 'some',
+    'unas': 'some',
+    'de': 'of',
+    'del': 'of',
+    'a': 'to',
+    'al': 'to',
+    'en': 'in',
+    'con': 'with',
+    'para': 'for',
+    'por': 'for',
+    'sin': 'without',
+    'que': '',
+    'se': '',
+    'le': '',
+    'lo': '',
+    'les': '',
+    'como': '',
+    'y': 'and',
+    'e': 'and',
+    'o': 'or',
+    'pero': 'but',
+    'si': 'if',
+    'porque': 'because',
+    'muy': 'very',
+    'tambien': 'also',
+    'este': 'this',
+    'esta': 'this',
+    'esto': 'this',
+    'ese': 'that',
+    'esa': 'that',
+    'eso': 'that',
+
+    // Questions
+    'qué': 'what',
+    'cual': 'which',
+    'cómo': 'how',
+    'donde': 'where',
+    'adonde': 'where',
+    'cuando': 'when',
+    'quien': 'who',
+    'quienes': 'who',
+
+    // Time
+    'hoy': 'today',
+    'ayer': 'yesterday',
+    'manana': 'tomorrow',
+    'ahora': 'now',
+    'luego': 'later',
+    'despues': 'later',
+    'antes': 'before',
+    'pronto': 'soon',
+    'ya': 'already',
+    'siempre': 'always',
+    'nunca': 'never',
+    'tarde': 'afternoon',
+    'noche': 'night',
+    'dia': 'day',
+    'dias': 'days',
+    'semana': 'week',
+    'mes': 'month',
+    'ano': 'year',
+    'hora': 'hour',
+    'vez': 'time',
+    'tiempo': 'time',
+    'lunes': 'monday',
+    'martes': 'tuesday',
+    'miercoles': 'wednesday',
+    'jueves': 'thursday',
+    'viernes': 'friday',
+    'sabado': 'saturday',
+    'domingo': 'sunday',
+
+    // Numbers (read by the English number parser)
+    'cero': 'zero',
+    'uno': 'one',
+    'dos': 'two',
+    'tres': 'three',
+    'cuatro': 'four',
+    'cinco': 'five',
+    'seis': 'six',
+    'siete': 'seven',
+    'ocho': 'eight',
+    'nueve': 'nine',
+    'diez': 'ten',
+    'once': 'eleven',
+    'doce': 'twelve',
+    'trece': 'thirteen',
+    'catorce': 'fourteen',
+    'quince': 'fifteen',
+    'dieciseis': 'sixteen',
+    'diecisiete': 'seventeen',
+    'dieciocho': 'eighteen',
+    'diecinueve': 'nineteen',
+    'veinte': 'twenty',
+    'veintiuno': 'twenty one',
+    'veintiun': 'twenty one',
+    'veintiuna': 'twenty one',
+    'veintidos': 'twenty two',
+    'veintitres': 'twenty three',
+    'veinticuatro': 'twenty four',
+    'veinticinco': 'twenty five',
+    'veintiseis': 'twenty six',
+    'veintisiete': 'twenty seven',
+    'veintiocho': 'twenty eight',
+    'veintinueve': 'twenty nine',
+    'treinta': 'thirty',
+    'cuarenta': 'forty',
+    'cincuenta': 'fifty',
+    'sesenta': 'sixty',
+    'setenta': 'seventy',
+    'ochenta': 'eighty',
+    'noventa': 'ninety',
+    ...spanishTensAndUnits(),
+    'cien': 'one hundred',
+    'ciento': 'one hundred',
+    'doscientos': 'two hundred',
+    'trescientos': 'three hundred',
+    'cuatrocientos': 'four hundred',
+    'quinientos': 'five hundred',
+    'seiscientos': 'six hundred',
+    'setecientos': 'seven hundred',
+    'ochocientos': 'eight hundred',
+    'novecientos': 'nine hundred',
+    'mil': 'thousand',
+    'millon': 'million',
+    'millones': 'million',
+    'primero': 'first',
+    'primera': 'first',
+    'segundo': 'second',
+    'tercero': 'third',
+
+    // Linking verbs (dropped like English "am" / "is")
+    'soy': 'am',
+    'eres': 'are',
+    'es': 'is',
+    'somos': 'are',
+    'son': 'are',
+    'estoy': 'am',
+    'estas': 'are',
+    'está': 'is',
+    'estamos': 'are',
+    'estan': 'are',
+    'era': 'was',
+    'fue': 'was',
+    'tengo': 'have',
+    'tienes': 'have',
+    'tiene': 'has',
+    'tenemos': 'have',
+    'tienen': 'have',
+
+    // Verbs (every form to the English base form)
+    'quiero': 'want',
+    'quieres': 'want',
+    'quiere': 'wants',
+    'queremos': 'want',
+    'quieren': 'want',
+    'necesito': 'need',
+    'necesitas': 'need',
+    'necesita': 'needs',
+    'voy': 'go',
+    'vas': 'go',
+    'va': 'goes',
+    'vamos': 'go',
+    'van': 'go',
+    'fui': 'went',
+    'ir': 'go',
+    'vengo': 'come',
+    'vienes': 'come',
+    'viene': 'comes',
+    'venir': 'come',
+    'comer': 'eat',
+    'comes': 'eat',
+    'come': 'eats',
+    'comemos': 'eat',
+    'comen': 'eat',
+    'bebo': 'drink',
+    'bebes': 'drink',
+    'bebe': 'drinks',
+    'beber': 'drink',
+    'tomo': 'drink',
+    'hablo': 'talk',
+    'hablas': 'talk',
+    'habla': 'talks',
+    'hablar': 'talk',
+    'sé': 'know',
+    'sabes': 'know',
+    'sabe': 'knows',
+    'conozco': 'know',
+    'conoces': 'know',
+    'entiendo': 'understand',
+    'entiendes': 'understand',
+    'entiende': 'understands',
+    'pienso': 'think',
+    'piensas': 'think',
+    'creo': 'think',
+    'veo': 'see',
+    'ves': 'see',
+    've': 'sees',
+    'ver': 'see',
+    'oigo': 'hear',
+    'trabajo': 'work',
+    'trabajas': 'work',
+    'trabaja': 'works',
+    'trabajar': 'work',
+    'estudio': 'study',
+    'estudias': 'study',
+    'estudiar': 'study',
+    'vivo': 'live',
+    'vives': 'live',
+    'vive': 'lives',
+    'ayuda': 'help',
+    'ayudar': 'help',
+    'ayudame': 'help me',
+    'puedo': 'can',
+    'puedes': 'can',
+    'puede': 'can',
+    'amo': 'love',
+    'quiero mucho': 'love',
+    'duermo': 'sleep',
+    'dormir': 'sleep',
+    'juego': 'play',
+    'jugar': 'play',
+    'leo': 'read',
+    'leer': 'read',
+    'escribo': 'write',
+    'escribir': 'write',
+    'aprendo': 'learn',
+    'aprender': 'learn',
+    'enseno': 'teach',
+    'compro': 'buy',
+    'comprar': 'buy',
+    'espera': 'wait',
+    'esperar': 'wait',
+    'recuerdo': 'remember',
+    'olvide': 'forgot',
+
+    // People
+    'madre': 'mother',
+    'mama': 'mother',
+    'padre': 'father',
+    'papa': 'father',
+    'hermana': 'sister',
+    'hermano': 'brother',
+    'hijo': 'son',
+    'hija': 'daughter',
+    'bebé': 'baby',
+    'amigo': 'friend',
+    'amiga': 'friend',
+    'amigos': 'friends',
+    'familia': 'family',
+    'persona': 'person',
+    'gente': 'people',
+    'maestro': 'teacher',
+    'maestra': 'teacher',
+    'doctor': 'doctor',
+    'sordo': 'deaf',
+    'sorda': 'deaf',
+    'oyente': 'hearing',
+
+    // Places and things
+    'casa': 'home',
+    'escuela': 'school',
+    'tienda': 'store',
+    'hospital': 'hospital',
+    'ciudad': 'city',
+    'pais': 'country',
+    'libro': 'book',
+    'telefono': 'phone',
+    'coche': 'car',
+    'carro': 'car',
+    'autobus': 'bus',
+    'puerta': 'door',
+    'mesa': 'table',
+    'dinero': 'money',
+    'comida': 'food',
+    'agua': 'water',
+    'cafe': 'coffee',
+    'té': 'tea',
+    'leche': 'milk',
+    'pan': 'bread',
+    'desayuno': 'breakfast',
+    'almuerzo': 'lunch',
+    'cena': 'dinner',
+    'perro': 'dog',
+    'gato': 'cat',
+    'pajaro': 'bird',
+    'nombre': 'name',
+    'idioma': 'language',
+    'lengua de senas': 'sign language',
+    'pregunta': 'question',
+    'problema': 'problem',
+
+    // Adjectives and adverbs
+    'bien': 'good',
+    'bueno': 'good',
+    'buena': 'good',
+    'mal': 'bad',
+    'malo': 'bad',
+    'mala': 'bad',
+    'feliz': 'happy',
+    'contento': 'happy',
+    'contenta': 'happy',
+    'triste': 'sad',
+    'enojado': 'angry',
+    'enojada': 'angry',
+    'cansado': 'tired',
+    'cansada': 'tired',
+    'enfermo': 'sick',
+    'enferma': 'sick',
+    'hambre': 'hungry',
+    'grande': 'big',
+    'pequeno': 'small',
+    'pequena': 'small',
+    'nuevo': 'new',
+    'nueva': 'new',
+    'viejo': 'old',
+    'vieja': 'old',
+    'caliente': 'hot',
+    'frio': 'cold',
+    'fria': 'cold',
+    'facil': 'easy',
+    'dificil': 'difficult',
+    'importante': 'important',
+    'bonito': 'beautiful',
+    'bonita': 'beautiful',
+    'rojo': 'red',
+    'azul': 'blue',
+    'verde': 'green',
+    'amarillo': 'yellow',
+    'negro': 'black',
+    'blanco': 'white',
+    'mas': 'more',
+    'mucho': 'many',
+    'mucha': 'many',
+    'muchos': 'many',
+    'muchas': 'many',
+    'poco': 'few',
+    'todo': 'all',
+    'todos': 'all',
+    'otra vez': 'again',
+    'aqui': 'here',
+    'alli': 'there',
+    'tal vez': 'maybe',
+    'quizas': 'maybe'
+};
+
+// "treinta y cinco" -> "thirty five": from 31 to 99, tens and units are joined by "y"
+function spanishTensAndUnits(): { [words: string]: string } {
+    const tens: { [word: string]: string } = {
+        'treinta': 'thirty', 'cuarenta': 'forty', 'cincuenta': 'fifty', 'sesenta': 'sixty',
+        'setenta': 'seventy', 'ochenta': 'eighty', 'noventa': 'ninety'
+    };
+    const units: { [word: string]: string } = {
+        'uno': 'one', 'un': 'one', 'una': 'one', 'dos': 'two', 'tres': 'three', 'cuatro': 'four',
+        'cinco': 'five', 'seis': 'six', 'siete': 'seven', 'ocho': 'eight', 'nueve': 'nine'
+    };
+    const table: { [words: string]: string } = {};
+    for (const ten in tens) {
+        for (const unit in units) table[`${ten} y ${unit}`] = `${tens[ten]} ${units[unit]}`;
+    }
+    return table;
+}
+
+// Spanish plurals add -s after a vowel ("perros"), -es after a consonant ("ciudades"),
+// and -z becomes -ces ("veces"). Short words are left alone: "nos" isn't a plural of "no".
+function spanishSingulars(word: string): string[] {
+    if (word.length < 4) return [];
+    const singulars: string[] = [];
+    if (word.endsWith('ces')) singulars.push(word.slice(0, -3) + 'z');
+    if (word.endsWith('s')) singulars.push(word.slice(0, -1));
+    if (word.endsWith('es')) singulars.push(word.slice(0, -2));
+    return singulars;
+}
+
+export const SPOKEN_LANGUAGES: { [key in SpokenLanguageId]: SpokenLanguage } = {
+    'en-US': { id: 'en-US', name: 'English (US)' },
+    'en-GB': { id: 'en-GB', name: 'English (UK)' },
+    'es-ES': { id: 'es-ES', name: 'Spanish (Spain)', toEnglish: SPANISH_TO_ENGLISH, singulars: spanishSingulars },
+    'es-MX': { id: 'es-MX', name: 'Spanish (Mexico)', toEnglish: SPANISH_TO_ENGLISH, singulars: spanishSingulars }
+};
+
+export const SPOKEN_LANGUAGE_IDS = Object.keys(SPOKEN_LANGUAGES) as SpokenLanguageId[];
+
+export function isSpokenLanguageId(id: unknown): id is SpokenLanguageId {
+    return typeof id === 'string' && Object.prototype.hasOwnProperty.call(SPOKEN_LANGUAGES, id);
+}
+
+// Drop accents ("café" -> "cafe"); one character in, one out
+export function foldAccents(text: string): string {
+    return text.replace(/[À-ſ]/g, ch => ch.normalize('NFD')[0]);
+}
+
+// English words for a sentence's (lowercase) words, longest phrase first. Each English
+// word keeps the range of source words it came from, so spans still point into the sentence.
+export function translateWords(language: SpokenLanguage, words: string[]): { word: string, from: number, to: number }[] {
+    const table = language.toEnglish;
+    if (!table) return words.map((word, i) => ({ word, from: i, to: i }));
+
+    const result: { word: string, from: number, to: number }[] = [];
+    for (let i = 0; i < words.length; i++) {
+        let english: string | undefined;
+        let length = 1;
+
+        for (let n = Math.min(MAX_PHRASE, words.length - i); n >= 1 && english === undefined; n--) {
+            const phrase = words.slice(i, i + n).join(' ');
+            english = table[phrase] ?? table[foldAccents(phrase)];
+            if (english !== undefined) length = n;
+        }
+
+        // A plural of a word the table has ("perros" -> "perro" -> "dog"); dropped words
+        // ('') have no plural
+        if (english === undefined && language.singulars) {
+            for (const singular of language.singulars(words[i])) {
+                const found = table[singular] ?? table[foldAccents(singular)];
+                if (found) {
+                    english = found;
+                    break;
+                }
+            }
+        }
+
+        const to = i + length - 1;
+        if (english === undefined) {
+            result.push({ word: words[i], from: i, to: i });
+        } else {
+            english.split(' ').filter(w => w.length > 0).forEach(word => result.push({ word, from: i, to }));
+        }
+        i = to;
+    }
+    return result;
+}
@@ -1,38 +1,151 @@
 import './style.css';
 import { RobotAvatar } from './RobotAvatar';
+import { SignRecognizer, WebcamLandmarkSource, wordsToSentence } from './SignRecognizer';
+import { loadSettings, saveSettings } from './Settings';
+import type { DominantHand } from './Settings';
+import { SIGN_LANGUAGES, isSignLanguageId } from './SignLanguages';
+import { SPOKEN_LANGUAGES, isSpokenLanguageId } from './SpokenLanguages';
+import { WebSpeechInput, WorkerSpeechInput, ScriptedSpeechInput } from './SpeechInput';
+import type { SpeechInput, SpeechResult } from './SpeechInput';
+import { WebSpeechOutput, WorkerSpeechOutput } from './SpeechOutput';
+import type { SpeechOutput } from './SpeechOutput';
+import type { GlossToken } from './GlossAST';
 // Global State
 let robotAvatar: RobotAvatar | null = null;
+let signRecognizer: SignRecognizer | null = null;
 let isRunning = false;
+const settings = loadSettings();
 
 // --- Application Logic ---
 
-function logTranscript(msg: string) {
+// Append a timestamped line to the transcript. Returns the line, for messages that
+// grow while they are shown (fingerspelled words).
+function logTranscript(msg: string): HTMLElement | null {
     const t = document.getElementById('transcript');
-    if (t) {
-        // Append new message with timestamp
-        const timestamp = new Date().toLocaleTimeString();
-        const currentText = t.innerText;
-        const newText = currentText === 'System Ready. Use the microphone or type below.'
-            ? `[${timestamp}] ${msg}`
-            : `${currentText}\n[${timestamp}] ${msg}`;
-        t.innerText = newText;
-        // Auto-scroll to bottom
-        t.scrollTop = t.scrollHeight;
+    if (!t) return null;
+
+    // The first message replaces the "System Ready" placeholder
+    if (t.childElementCount === 0) t.textContent = '';
+
+    const line = document.createElement('div');
+    line.textContent = `[${new Date().toLocaleTimeString()}] ${msg}`;
+    t.appendChild(line);
+    // Auto-scroll to bottom
+    t.scrollTop = t.scrollHeight;
+    return line;
+}
+
+// Worker scripts a URL parameter may start. Only these same-origin paths are loaded:
+// a data:, blob: or cross-origin URL in a shared link must not run in the page.
+// The workers don't ship with the app: each wraps a local engine and its model, which
+// are deployed separately. Put the script in public/ (Vite serves and copies it to the
+// site root); it speaks the message protocol documented on the class that starts it.
+// The recognizer: an adapter around a WASM speech model, see WorkerSpeechInput
+const SPEECH_WORKERS = ['/recognizer-worker.js'];
+// The synthesizer: an adapter around a WASM voice, see WorkerSpeechOutput
+const TTS_WORKERS = ['/synthesizer-worker.js'];
+
+// The worker URL from a query parameter, or null if it isn't one of the allowed scripts
+function workerUrlParam(name: string, allowed: string[]): URL | null {
+    const value = new URLSearchParams(window.location.search).get(name);
+    if (!value) return null;
+
+    let url: URL;
+    try {
+        url = new URL(value, window.location.href);
+    } catch (err) {
+        console.error(`[Main] Ignoring ?${name}=: not a valid URL`);
+        return null;
+    }
+    const sameOrigin = url.protocol === window.location.protocol && url.origin === window.location.origin;
+    if (!sameOrigin || !allowed.includes(url.pathname)) {
+        console.error(`[Main] Ignoring ?${name}=${value}: not one of ${allowed.join(', ')}`);
+        return null;
     }
+    return url;
+}
+
+// Speech Output State
+let speechOutput: SpeechOutput | null = null;
+
+// Optional local synthesizer, ?ttsWorker=/synthesizer-worker.js (see WorkerSpeechOutput)
+function createSpeechOutput(): SpeechOutput | null {
+    const workerUrl = workerUrlParam('ttsWorker', TTS_WORKERS);
+    if (workerUrl) return new WorkerSpeechOutput(workerUrl);
+    if (WebSpeechOutput.isSupported()) return new WebSpeechOutput();
+    return null;
+}
+
+function setupSpeechOutput() {
+    // Return existing if already setup
+    if (speechOutput) return speechOutput;
+
+    speechOutput = createSpeechOutput();
+    if (!speechOutput) return null;
+
+    applyVoiceSettings();
+    speechOutput.onVoicesChanged = populateVoices;
+    populateVoices();
+    console.log(`[Main] Speech output: ${speechOutput.name}`);
+    return speechOutput;
+}
+
+// Signed sentences are read back in English (see wordsToSentence), whatever language is
+// spoken: Spanish speech still means an English voice, in the accent of an English setting
+function voicedLanguage(): string {
+    return settings.spokenLanguage.startsWith('en') ? settings.spokenLanguage : 'en-US';
 }
 
-function speak(text: string) {
-    if ('speechSynthesis' in window) {
-        const utterance = new SpeechSynthesisUtterance(text);
-        window.speechSynthesis.speak(utterance);
+function applyVoiceSettings() {
+    if (!speechOutput) return;
+    speechOutput.lang = voicedLanguage();
+    speechOutput.voice = settings.voice;
+    speechOutput.rate = settings.speechRate;
+    speechOutput.pitch = settings.speechPitch;
+}
+
+// Voices for the voiced language (all of them if the engine has none for it)
+function populateVoices() {
+    const select = document.getElementById('voice-select') as HTMLSelectElement | null;
+    if (!select || !speechOutput) return;
+
+    const all = speechOutput.voices();
+    const prefix = voicedLanguage().split('-')[0];
+    const matching = all.filter(v => v.lang.toLowerCase().startsWith(prefix));
+    const voices = matching.length > 0 ? matching : all;
+
+    select.innerHTML = '';
+    select.appendChild(new Option('Default voice', ''));
+    for (const voice of voices) {
+        select.appendChild(new Option(`${voice.name} (${voice.lang})`, voice.id));
     }
+    // A saved voice of another language stays saved but isn't offered
+    select.value = voices.some(v => v.id === settings.voice) ? settings.voice! : '';
+}
+
+// Read text aloud in its language. The chosen voice is an English one; text in another
+// language (typed Spanish) gets the engine's voice for that language.
+function speak(text: string, lang: string = voicedLanguage()) {
+    const output = setupSpeechOutput();
+    if (!output) return;
+    output.lang = lang;
+    output.voice = lang === voicedLanguage() ? settings.voice : null;
+    output.speak(text);
 }
 
 
 
 // Speech Recognition State
-let recognition: any = null;
-let isListening = false;
+let speechInput: SpeechInput | null = null;
+let interimTranscript = ''; // Latest interim result of the utterance being spoken
+let pendingResult: SpeechResult | null = null; // Heard with low confidence, waiting to be confirmed
+let pendingSigned: GlossToken[] = []; // Its tokens signed while it was spoken (incremental mode)
+
+// Hypotheses requested per utterance, offered when a transcript needs confirming
+const SPEECH_ALTERNATIVES = 3;
+
+// ms between the words of a scripted transcript (?speechScript=), about speaking pace
+const SCRIPTED_WORD_INTERVAL = 400;
 
 function getMicStatusEl() {
     return document.getElementById('mic-status');
@@ -74,109 +187,184 @@ async function checkMicrophonePermission(): Promise<boolean> {
     }
 }
 
+// Optional local recognizer, ?speechWorker=/recognizer-worker.js (see WorkerSpeechInput),
+// or a scripted demo without a microphone: ?speechScript=hello my name is ana|where do you live
+function createSpeechInput(): SpeechInput | null {
+    const params = new URLSearchParams(window.location.search);
+    const script = params.get('speechScript');
+    if (script) return ScriptedSpeechInput.fromSentences(script.split('|'), SCRIPTED_WORD_INTERVAL);
+    const workerUrl = workerUrlParam('speechWorker', SPEECH_WORKERS);
+    if (workerUrl) return new WorkerSpeechInput(workerUrl);
+    if (WebSpeechInput.isSupported()) return new WebSpeechInput();
+    return null;
+}
+
 function setupAudio() {
     // Return existing if already setup
-    if (recognition) return recognition;
-
-    // @ts-ignore
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-
-    if (SpeechRecognition) {
-
-        recognition = new SpeechRecognition();
-        recognition.continuous = false; // Changed to false for stability
-        recognition.lang = 'en-US';
-        recognition.interimResults = false;
-        recognition.maxAlternatives = 1;
-
-        recognition.onstart = () => {
-            isListening = true;
-            updateMicUI(true);
-        };
-
-        recognition.onend = () => {
-            updateMicUI(false);
-
-            // Auto-restart if we are supposed to be listening
-            // This replaces 'continuous: true' with a more stable manual loop
-            if (isListening) {
-                setTimeout(() => {
-                    try {
-                        recognition.start();
-                    } catch (e) {
-                        console.log("Restart ignored", e);
-                        isListening = false;
-                    }
-                }, 100);
-            }
-        };
-
-        recognition.onerror = (event: any) => {
-            console.error("Speech Error Details:", event);
-
-            if (event.error === 'not-allowed') {
-                logTranscript("❌ Microphone access denied. Please allow in browser settings.");
-            } else if (event.error === 'network') {
-                logTranscript("❌ Network error. Use the text input below.");
-            } else if (event.error !== 'aborted' && event.error !== 'no-speech') {
-                logTranscript(`❌ Error: ${event.error}`);
-            }
-
-            // Ensure UI reflects stopped state
-            isListening = false;
-            updateMicUI(false);
-        };
-
-
-        recognition.onresult = (event: any) => {
-            const last = event.results.length - 1;
-            const transcript = event.results[last][0].transcript.trim();
-            console.log("Heard:", transcript);
-            logTranscript(`✅ You said: "${transcript}"`);
-
-            if (robotAvatar) {
-                // Pass the full sentence to the avatar
-                // The avatar will handle ASL gloss conversion and word processing
-                robotAvatar.triggerAnimation(transcript);
-            }
-        };
-    } else {
+    if (speechInput) return speechInput;
+
+    speechInput = createSpeechInput();
+    if (!speechInput) {
         logTranscript("❌ Web Speech API not supported in this browser.");
         logTranscript("Please use Chrome, Edge, or Safari.");
+        return null;
     }
-    return recognition;
+
+    speechInput.lang = settings.spokenLanguage;
+    speechInput.interimResults = settings.incrementalSpeech;
+    speechInput.maxAlternatives = SPEECH_ALTERNATIVES;
+    speechInput.onStateChange = updateMicUI;
+    speechInput.onError = (message) => logTranscript(`❌ ${message}`);
+    speechInput.onResult = (result) => {
+        if (result.isFinal) handleFinalTranscript(result);
+        else handleInterimTranscript(result.transcript);
+    };
+    console.log(`[Main] Speech input: ${speechInput.name}`);
+    return speechInput;
+}
+
+// Incremental mode: sign the stable part of what has been heard so far
+function handleInterimTranscript(transcript: string) {
+    console.log("Interim:", transcript);
+    interimTranscript = transcript;
+    if (robotAvatar) robotAvatar.updateInterim(transcript);
+}
+
+// " (92%)" when the engine gave a confidence
+function formatConfidence(confidence?: number): string {
+    return confidence === undefined ? '' : ` (${Math.round(confidence * 100)}%)`;
 }
 
+// Unknown confidence never waits: not every engine reports one
+function needsConfirmation(result: SpeechResult): boolean {
+    return result.confidence !== undefined && result.confidence < settings.confirmBelow;
+}
+
+function handleFinalTranscript(result: SpeechResult) {
+    const transcript = result.transcript;
+    console.log("Heard:", transcript, result.confidence);
+
+    if (needsConfirmation(result)) {
+        logTranscript(`❓ You said: "${transcript}"${formatConfidence(result.confidence)} - confirm it before it is signed`);
+        // Whatever was signed while it was spoken stays; the rest waits with the transcript
+        const signed = robotAvatar && interimTranscript ? robotAvatar.cancelInterim() : [];
+        interimTranscript = '';
+        showReview(result, signed);
+        return;
+    }
+
+    logTranscript(`✅ You said: "${transcript}"${formatConfidence(result.confidence)}`);
+
+    if (robotAvatar) {
+        // Pass the full sentence to the avatar
+        // The avatar will handle gloss conversion and word processing.
+        // After interim results it revises what it queued for them instead.
+        const gloss = interimTranscript
+            ? robotAvatar.finishInterim(transcript)
+            : robotAvatar.triggerAnimation(transcript);
+        logTranscript(`🤟 Gloss: ${gloss}`);
+    }
+    interimTranscript = '';
+}
+
+// --- Transcript Review ---
+// Low-confidence transcripts wait in the review panel: pick an alternative or edit the
+// text, then sign it or discard it. Only the latest one waits; a newer one replaces it.
+
+function showReview(result: SpeechResult, signed: GlossToken[]) {
+    pendingResult = result;
+    pendingSigned = signed;
+    const panel = document.getElementById('transcript-review');
+    const list = document.getElementById('review-alternatives');
+    const input = document.getElementById('review-input') as HTMLInputElement | null;
+    const confidence = document.getElementById('review-confidence');
+    if (!panel || !list || !input) return;
+
+    if (confidence) confidence.textContent = formatConfidence(result.confidence).trim();
+    input.value = result.transcript;
+
+    // One button per hypothesis; picking one puts it in the text box for editing
+    list.innerHTML = '';
+    const alternatives = result.alternatives || [{ transcript: result.transcript, confidence: result.confidence }];
+    for (const alt of alternatives) {
+        const btn = document.createElement('button');
+        btn.className = 'text-left text-sm bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded transition';
+        btn.textContent = `${alt.transcript}${formatConfidence(alt.confidence)}`;
+        btn.addEventListener('click', () => {
+            input.value = alt.transcript;
+            input.focus();
+        });
+        list.appendChild(btn);
+    }
+
+    panel.classList.remove('hidden');
+}
+
+function hideReview() {
+    pendingResult = null;
+    pendingSigned = [];
+    const panel = document.getElementById('transcript-review');
+    if (panel) panel.classList.add('hidden');
+}
+
+function confirmReview() {
+    const input = document.getElementById('review-input') as HTMLInputElement | null;
+    const text = input ? input.value.trim() : '';
+    if (!pendingResult || !text) return;
+    const signed = pendingSigned;
+    hideReview();
+
+    logTranscript(`✅ Confirmed: "${text}"`);
+    if (robotAvatar) {
+        // Only what wasn't already signed while it was spoken
+        const gloss = robotAvatar.triggerConfirmed(text, signed);
+        logTranscript(`🤟 Gloss: ${gloss}`);
+    }
+}
+
+function discardReview() {
+    if (!pendingResult) return;
+    logTranscript(`🗑️ Discarded: "${pendingResult.transcript}"`);
+    hideReview();
+}
+
+const reviewSignBtn = document.getElementById('review-sign-btn');
+if (reviewSignBtn) reviewSignBtn.addEventListener('click', confirmReview);
+
+const reviewDiscardBtn = document.getElementById('review-discard-btn');
+if (reviewDiscardBtn) reviewDiscardBtn.addEventListener('click', discardReview);
+
+const reviewInput = document.getElementById('review-input');
+if (reviewInput) reviewInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') confirmReview();
+    else if (e.key === 'Escape') discardReview();
+});
+
 async function toggleListening() {
-    if (!recognition) setupAudio();
-    if (!recognition) return;
+    const input = setupAudio();
+    if (!input) return;
 
-    if (isListening) {
+    if (input.listening) {
         // User explicitly wants to stop
-        isListening = false;
-        recognition.stop();
-    } else {
-        // User wants to start
-        isListening = true; // Set flag so onend knows to restart
-
-        // Check microphone permission first
-        const hasPermission = await checkMicrophonePermission();
-        if (!hasPermission) {
-            isListening = false;
-            logTranscript("Cannot start: Microphone permission required.");
-            return;
-        }
+        input.stop();
+        return;
+    }
 
-        try {
-            recognition.start();
-        } catch (e: any) {
-            isListening = false;
-            console.warn("Start failed", e);
-            if (e.message && e.message.includes('already started')) {
-                logTranscript("Speech recognition already running.");
-            } else {
-                logTranscript(`Error starting: ${e.message}`);
-            }
+    // Check microphone permission first (a scripted transcript needs none)
+    const hasPermission = input instanceof ScriptedSpeechInput || await checkMicrophonePermission();
+    if (!hasPermission) {
+        logTranscript("Cannot start: Microphone permission required.");
+        return;
+    }
+
+    try {
+        await input.start();
+    } catch (e: any) {
+        console.warn("Start failed", e);
+        if (e.message && e.message.includes('already started')) {
+            logTranscript("Speech recognition already running.");
+        } else {
+            logTranscript(`Error starting: ${e.message}`);
         }
     }
 }
@@ -185,6 +373,105 @@ async function toggleListening() {
 const micToggleBtn = document.getElementById('mic-toggle-btn');
 if (micToggleBtn) micToggleBtn.addEventListener('click', toggleListening);
 
+// --- Sign-to-Text (Camera) ---
+
+// Letters of the word currently being fingerspelled, and its transcript line
+let signedWord = '';
+let signedLine: HTMLElement | null = null;
+
+// Stream recognized letters onto a single transcript line until the word ends
+function streamSignedLetter(letter: string) {
+    signedWord += letter;
+    if (signedWord.length === 1 || !signedLine) {
+        signedLine = logTranscript(`🤟 You signed: ${signedWord}`);
+        return;
+    }
+
+    // Other messages may have been logged since; only this word's line changes
+    signedLine.textContent = (signedLine.textContent || '').replace(/\S*$/, signedWord);
+}
+
+function endSignedWord(word: string) {
+    console.log("Signed:", word);
+    signedWord = '';
+    signedLine = null;
+}
+
+// A pause in signing ends the sentence: voice it for the hearing person
+function endSignedSentence(words: string[]) {
+    const sentence = wordsToSentence(words);
+    console.log("Signed sentence:", sentence);
+    logTranscript(`🗣️ Sentence: "${sentence}"`);
+    if (settings.speakSigning) speak(sentence);
+}
+
+function updateCameraUI(active: boolean) {
+    const el = document.getElementById('camera-status');
+    const btn = document.getElementById('camera-toggle-btn');
+    const preview = document.getElementById('camera-preview');
+
+    if (el) {
+        if (active) el.classList.add('bg-green-500', 'animate-pulse');
+        else el.classList.remove('bg-green-500', 'animate-pulse');
+    }
+
+    if (btn) {
+        btn.textContent = active ? "Stop Camera" : "Start Camera";
+        btn.classList.toggle('bg-red-600', active);
+        btn.classList.toggle('bg-blue-600', !active);
+    }
+
+    if (preview) preview.classList.toggle('hidden', !active);
+}
+
+async function toggleCamera() {
+    if (signRecognizer && signRecognizer.isRunning) {
+        // User explicitly wants to stop
+        signRecognizer.stop();
+        updateCameraUI(false);
+        return;
+    }
+
+    if (typeof handpose === 'undefined' || typeof fp === 'undefined') {
+        logTranscript("❌ Hand tracking libraries failed to load.");
+        return;
+    }
+
+    const video = document.getElementById('camera-preview') as HTMLVideoElement | null;
+    if (!video) return;
+
+    if (!signRecognizer) {
+        signRecognizer = new SignRecognizer(new WebcamLandmarkSource(video));
+        signRecognizer.onLetter = streamSignedLetter;
+        signRecognizer.onWord = endSignedWord;
+        signRecognizer.onSentence = endSignedSentence;
+    }
+
+    updateCameraUI(true);
+    logTranscript("Camera on. Fingerspell in front of the camera.");
+
+    try {
+        // Resolves once the recognizer is stopped
+        await signRecognizer.start();
+    } catch (err: any) {
+        console.error("Camera error:", err);
+        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+            logTranscript("❌ Camera access denied. Please allow in browser settings.");
+        } else if (err.name === 'NotFoundError') {
+            logTranscript("❌ No camera found.");
+        } else {
+            logTranscript(`❌ Camera error: ${err.message}`);
+        }
+        signRecognizer.stop();
+    }
+    // A stop and quick restart while this start was loading leaves the new run going
+    if (!signRecognizer.isRunning) updateCameraUI(false);
+}
+
+// Camera Toggle Logic
+const cameraToggleBtn = document.getElementById('camera-toggle-btn');
+if (cameraToggleBtn) cameraToggleBtn.addEventListener('click', toggleCamera);
+
 function handleTextInput() {
     const input = document.getElementById('chat-input') as HTMLInputElement;
     const text = input.value.trim();
@@ -194,12 +481,13 @@ function handleTextInput() {
     console.log("Chat Input:", text);
     logTranscript(`You typed: "${text}"`);
 
-    // Speak it (TTS)
-    speak(text);
+    // Speak it (TTS), in the language it was typed in
+    speak(text, settings.spokenLanguage);
 
-    // Pass full sentence to avatar for ASL processing
+    // Pass full sentence to avatar for sign language processing
     if (robotAvatar) {
-        robotAvatar.triggerAnimation(text);
+        const gloss = robotAvatar.triggerAnimation(text);
+        logTranscript(`🤟 Gloss: ${gloss}`);
     }
 
     input.value = '';
@@ -212,9 +500,20 @@ function startGame() {
 
     // Init Systems
     robotAvatar = new RobotAvatar('canvas-container');
+    robotAvatar.setDominantHand(settings.dominantHand);
+    applyLanguages();
     console.log("[Main] RobotAvatar Created");
 
     setupAudio();
+    setupSpeechOutput();
+
+    // Optional extra signs for the selected sign language, e.g. ?lexicon=/my-signs.json (no rebuild needed)
+    const lexiconUrl = new URLSearchParams(window.location.search).get('lexicon');
+    if (lexiconUrl) {
+        SIGN_LANGUAGES[settings.signLanguage].lexicon.loadFromUrl(lexiconUrl)
+            .then(count => logTranscript(`Loaded ${count} signs from ${lexiconUrl}`))
+            .catch(err => logTranscript(`❌ ${err.message}`));
+    }
 
     // Main Render Loop
     mainLoop();
@@ -235,6 +534,119 @@ if (chatInput) chatInput.addEventListener('keypress', (e) => {
     if (e.key === 'Enter') handleTextInput();
 });
 
+// Dominant hand (saved between sessions)
+const dominantHandSelect = document.getElementById('dominant-hand-select') as HTMLSelectElement | null;
+if (dominantHandSelect) {
+    dominantHandSelect.value = settings.dominantHand;
+    dominantHandSelect.addEventListener('change', () => {
+        settings.dominantHand = dominantHandSelect.value as DominantHand;
+        saveSettings(settings);
+        if (robotAvatar) robotAvatar.setDominantHand(settings.dominantHand);
+        logTranscript(`Dominant hand: ${settings.dominantHand}`);
+    });
+}
+
+// Spoken and sign language (saved between sessions)
+function applyLanguages() {
+    if (robotAvatar) {
+        robotAvatar.setLanguages(SIGN_LANGUAGES[settings.signLanguage], SPOKEN_LANGUAGES[settings.spokenLanguage]);
+    }
+    // Takes effect from the next utterance
+    if (speechInput) speechInput.lang = settings.spokenLanguage;
+    applyVoiceSettings();
+    populateVoices();
+}
+
+const spokenLanguageSelect = document.getElementById('spoken-language-select') as HTMLSelectElement | null;
+if (spokenLanguageSelect) {
+    spokenLanguageSelect.value = settings.spokenLanguage;
+    spokenLanguageSelect.addEventListener('change', () => {
+        if (!isSpokenLanguageId(spokenLanguageSelect.value)) return;
+        settings.spokenLanguage = spokenLanguageSelect.value;
+        saveSettings(settings);
+        applyLanguages();
+        logTranscript(`Spoken language: ${SPOKEN_LANGUAGES[settings.spokenLanguage].name}`);
+    });
+}
+
+const signLanguageSelect = document.getElementById('sign-language-select') as HTMLSelectElement | null;
+if (signLanguageSelect) {
+    signLanguageSelect.value = settings.signLanguage;
+    signLanguageSelect.addEventListener('change', () => {
+        if (!isSignLanguageId(signLanguageSelect.value)) return;
+        settings.signLanguage = signLanguageSelect.value;
+        saveSettings(settings);
+        applyLanguages();
+        logTranscript(`Sign language: ${SIGN_LANGUAGES[settings.signLanguage].name}`);
+    });
+}
+
+// Confidence below which transcripts wait for confirmation (saved between sessions)
+const confirmBelowSelect = document.getElementById('confirm-below-select') as HTMLSelectElement | null;
+if (confirmBelowSelect) {
+    confirmBelowSelect.value = String(settings.confirmBelow);
+    confirmBelowSelect.addEventListener('change', () => {
+        settings.confirmBelow = Number(confirmBelowSelect.value);
+        saveSettings(settings);
+        logTranscript(settings.confirmBelow > 0
+            ? `Confirm transcripts below ${Math.round(settings.confirmBelow * 100)}% confidence`
+            : 'Transcripts are signed without confirmation');
+    });
+}
+
+// Voicing of signed sentences, and the voice used (saved between sessions)
+const speakSigningToggle = document.getElementById('speak-signing-toggle') as HTMLInputElement | null;
+if (speakSigningToggle) {
+    speakSigningToggle.checked = settings.speakSigning;
+    speakSigningToggle.addEventListener('change', () => {
+        settings.speakSigning = speakSigningToggle.checked;
+        saveSettings(settings);
+        logTranscript(`Speak what I sign: ${settings.speakSigning ? 'on' : 'off'}`);
+    });
+}
+
+const voiceSelect = document.getElementById('voice-select') as HTMLSelectElement | null;
+if (voiceSelect) {
+    voiceSelect.addEventListener('change', () => {
+        settings.voice = voiceSelect.value || null;
+        saveSettings(settings);
+        applyVoiceSettings();
+    });
+}
+
+const speechRateInput = document.getElementById('speech-rate-input') as HTMLInputElement | null;
+if (speechRateInput) {
+    speechRateInput.value = String(settings.speechRate);
+    speechRateInput.addEventListener('change', () => {
+        settings.speechRate = Number(speechRateInput.value);
+        saveSettings(settings);
+        applyVoiceSettings();
+    });
+}
+
+const speechPitchInput = document.getElementById('speech-pitch-input') as HTMLInputElement | null;
+if (speechPitchInput) {
+    speechPitchInput.value = String(settings.speechPitch);
+    speechPitchInput.addEventListener('change', () => {
+        settings.speechPitch = Number(speechPitchInput.value);
+        saveSettings(settings);
+        applyVoiceSettings();
+    });
+}
+
+// Incremental signing of interim speech results (saved between sessions)
+const incrementalToggle = document.getElementById('incremental-speech-toggle') as HTMLInputElement | null;
+if (incrementalToggle) {
+    incrementalToggle.checked = settings.incrementalSpeech;
+    incrementalToggle.addEventListener('change', () => {
+        settings.incrementalSpeech = incrementalToggle.checked;
+        saveSettings(settings);
+        // Takes effect from the next recognition session
+        if (speechInput) speechInput.interimResults = settings.incrementalSpeech;
+        logTranscript(`Sign while speaking: ${settings.incrementalSpeech ? 'on' : 'off'}`);
+    });
+}
+
 // Auto-start on page load
 console.log("[Main] Page Loaded. Auto-starting...");
 startGame();
@@ -35,6 +35,7 @@ declare namespace THREE {
     const Clock: any;
     const FogExp2: any;
     const Euler: any;
+    const Vector3: any;
     const MeshBasicMaterial: any;
     const DoubleSide: any;
     const SphereGeometry: any;
@@ -46,3 +47,6 @@ interface Window {
     SpeechRecognition: any;
     webkitSpeechRecognition: any;
 }
+
+// fingerpose from npm, loaded by the recognizer tests in place of the CDN build
+declare module 'fingerpose';
@@ -0,0 +1,34 @@
+import { defineConfig, Plugin } from 'vite';
+import { validateLexicon, formatLexiconReport } from './src/LexiconValidator';
+import { LEXICON_SOURCES, BSL_LEXICON_SOURCES } from './src/SignLexicon';
+
+// Validate the sign lexicons on every build; duplicates and conflicts fail the build.
+// The dev server only prints the report.
+function lexiconValidation(): Plugin {
+    let isBuild = false;
+    return {
+        name: 'lexicon-validation',
+        configResolved(config) {
+            isBuild = config.command === 'build';
+        },
+        buildStart() {
+            const lexicons = [
+                { label: 'ASL', report: validateLexicon(LEXICON_SOURCES) },
+                // The BSL starter lexicon fingerspells most words, so its coverage isn't checked
+                { label: 'BSL', report: validateLexicon(BSL_LEXICON_SOURCES, null) }
+            ];
+
+            for (const { label, report } of lexicons) {
+                const text = formatLexiconReport(report, label);
+                if (report.errors.length > 0 && isBuild) {
+                    this.error(text);
+                }
+                console.log(text);
+            }
+        }
+    };
+}
+
+export default defineConfig({
+    plugins: [lexiconValidation()]
+});
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run without vite.config.ts, so the lexicon report isn't printed on every run
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts']
+    }
+});